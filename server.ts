@@ -0,0 +1,67 @@
+/**
+ * SnapConvert server — serves the app, the /api proxy and the PeerJS
+ * signalling endpoint for phone upload from one origin.
+ * In development Vite runs as middleware; in production the built dist/ is
+ * served statically. HTTPS=true serves over HTTPS with a self-signed
+ * certificate, so phones on the LAN get a secure page.
+ */
+
+import http from 'http';
+import https from 'https';
+import path from 'path';
+import dotenv from 'dotenv';
+import express from 'express';
+import type { ErrorRequestHandler } from 'express';
+import { createApiRouter } from './server/api';
+import { loadCertificate } from './server/certificate';
+import { startJobWorker } from './server/jobs';
+import { lanAddresses } from './server/network';
+import { PEER_PATH, createPeerServer } from './server/signaling';
+
+dotenv.config({ path: ['.env.local', '.env'], quiet: true });
+
+const PORT = Number(process.env.PORT) || 3000;
+const HOST = process.env.HOST || '0.0.0.0';
+const isProduction = process.env.NODE_ENV === 'production';
+const useHttps = process.env.HTTPS === 'true';
+
+// body-parser errors (oversized or malformed JSON) carry a status; answer
+// them as JSON like the rest of the API.
+const apiErrorHandler: ErrorRequestHandler = (err, _req, res, next) => {
+  if (res.headersSent) return next(err);
+  const status = typeof err.status === 'number' ? err.status : 500;
+  res.status(status).json({ error: status === 413 ? 'Request too large' : err.message || 'Server error' });
+};
+
+async function main() {
+  const app = express();
+  app.disable('x-powered-by');
+  const tls = useHttps ? await loadCertificate(lanAddresses().map(entry => entry.address)) : null;
+  // The PeerServer needs the HTTP server for its WebSocket upgrades
+  const server = tls ? https.createServer(tls, app) : http.createServer(app);
+
+  app.use('/api', createApiRouter(), apiErrorHandler);
+  app.use(PEER_PATH, createPeerServer(server));
+
+  if (isProduction) {
+    const dist = path.resolve(import.meta.dirname, 'dist');
+    app.use(express.static(dist));
+    app.get('*', (_req, res) => res.sendFile(path.join(dist, 'index.html')));
+  } else {
+    const { createServer } = await import('vite');
+    const vite = await createServer({
+      // Vite's HMR socket has its own port and needs the certificate too
+      server: { middlewareMode: true, ...(tls && { https: tls }) },
+      appType: 'spa',
+    });
+    app.use(vite.middlewares);
+  }
+
+  startJobWorker();
+
+  server.listen(PORT, HOST, () => {
+    console.log(`SnapConvert running on ${tls ? 'https' : 'http'}://${HOST}:${PORT}`);
+  });
+}
+
+main();
@@ -0,0 +1,209 @@
+/**
+ * /api routes — thin proxy in front of Gemini so the key stays server-side,
+ * plus the persistent conversion job queue.
+ */
+
+import { ApiError } from '@google/genai';
+import express, { Router } from 'express';
+import { extractBlocks, isGeminiConfigured, suggestFileName } from './gemini';
+import {
+  addJobImage,
+  cancelJob,
+  closeJobUploads,
+  createJob,
+  deleteJob,
+  getImageCount,
+  getJob,
+  getJobImage,
+  getJobResult,
+  isJobCancelled,
+} from './jobs';
+import { rateLimit } from './rateLimit';
+
+// Matches the "up to 10MB each" promise in the UI.
+export const MAX_IMAGE_BYTES = 10 * 1024 * 1024;
+// Base64 inflates by 4/3; leave headroom for the JSON envelope.
+const MAX_EXTRACT_BODY = Math.ceil(MAX_IMAGE_BYTES * 4 / 3) + 64 * 1024;
+const MAX_FILENAME_TEXT = 2000;
+const MAX_JOB_IMAGES = 500;
+
+const SUPPORTED_MIME_TYPES = ['image/jpeg', 'image/png'];
+
+/**
+ * Status for a failed Gemini call, after its own retries. A request Gemini
+ * refused (bad input, safety block, bad key) keeps its 4xx so the client
+ * doesn't try again; rate limits and outages become 503/502, which it does.
+ */
+const upstreamStatus = (error: unknown): number => {
+  const status = error instanceof ApiError ? error.status : undefined;
+  if (status === 429) return 503;
+  if (status !== undefined && status >= 400 && status < 500) return status;
+  return 502;
+};
+
+export const createApiRouter = (): Router => {
+  const router = Router();
+
+  router.get('/health', (_req, res) => {
+    res.json({ gemini: isGeminiConfigured() });
+  });
+
+  router.use((_req, res, next) => {
+    if (!isGeminiConfigured()) {
+      res.status(503).json({ error: 'GEMINI_API_KEY is not configured on the server' });
+      return;
+    }
+    next();
+  });
+
+  router.post(
+    '/extract',
+    rateLimit({ windowMs: 60_000, max: 30 }),
+    express.json({ limit: MAX_EXTRACT_BODY }),
+    async (req, res) => {
+      const { data, mimeType } = req.body ?? {};
+      if (typeof data !== 'string' || typeof mimeType !== 'string') {
+        res.status(400).json({ error: 'Expected { data, mimeType }' });
+        return;
+      }
+      if (!SUPPORTED_MIME_TYPES.includes(mimeType)) {
+        res.status(415).json({ error: `Unsupported image type: ${mimeType}` });
+        return;
+      }
+      if (Buffer.byteLength(data, 'base64') > MAX_IMAGE_BYTES) {
+        res.status(413).json({ error: 'Image exceeds 10MB' });
+        return;
+      }
+
+      try {
+        res.json({ blocks: await extractBlocks(data, mimeType) });
+      } catch (error) {
+        console.error('Extraction failed:', error);
+        res.status(upstreamStatus(error)).json({ error: 'Extraction failed' });
+      }
+    },
+  );
+
+  router.post(
+    '/filename',
+    rateLimit({ windowMs: 60_000, max: 30 }),
+    express.json({ limit: '16kb' }),
+    async (req, res) => {
+      const { text } = req.body ?? {};
+      if (typeof text !== 'string') {
+        res.status(400).json({ error: 'Expected { text }' });
+        return;
+      }
+
+      try {
+        res.json({ name: await suggestFileName(text.slice(0, MAX_FILENAME_TEXT)) });
+      } catch (error) {
+        console.error('Filename generation failed:', error);
+        res.status(upstreamStatus(error)).json({ error: 'Filename generation failed' });
+      }
+    },
+  );
+
+  router.use('/jobs', createJobsRouter());
+
+  return router;
+};
+
+const createJobsRouter = (): Router => {
+  const router = Router();
+
+  router.post('/', rateLimit({ windowMs: 60_000, max: 10 }), express.json(), (req, res) => {
+    const { imageCount } = req.body ?? {};
+    if (!Number.isInteger(imageCount) || imageCount < 1 || imageCount > MAX_JOB_IMAGES) {
+      res.status(400).json({ error: `Expected { imageCount } between 1 and ${MAX_JOB_IMAGES}` });
+      return;
+    }
+    res.status(201).json({ id: createJob(imageCount) });
+  });
+
+  router.get('/:id', (req, res) => {
+    const job = getJob(req.params.id);
+    if (!job) {
+      res.status(404).json({ error: 'Job not found' });
+      return;
+    }
+    res.json(job);
+  });
+
+  router.get('/:id/result', (req, res) => {
+    if (getImageCount(req.params.id) === undefined) {
+      res.status(404).json({ error: 'Job not found' });
+      return;
+    }
+    res.json({ pages: getJobResult(req.params.id) });
+  });
+
+  router.put(
+    '/:id/images/:index',
+    rateLimit({ windowMs: 60_000, max: 240 }),
+    express.raw({ type: () => true, limit: MAX_IMAGE_BYTES }),
+    (req, res) => {
+      const imageCount = getImageCount(req.params.id);
+      const index = Number(req.params.index);
+      const mimeType = req.headers['content-type'] ?? '';
+      if (imageCount === undefined) {
+        res.status(404).json({ error: 'Job not found' });
+        return;
+      }
+      if (!Number.isInteger(index) || index < 0 || index >= imageCount) {
+        res.status(400).json({ error: 'Image index out of range' });
+        return;
+      }
+      if (!SUPPORTED_MIME_TYPES.includes(mimeType)) {
+        res.status(415).json({ error: `Unsupported image type: ${mimeType}` });
+        return;
+      }
+      if (isJobCancelled(req.params.id)) {
+        res.status(409).json({ error: 'Job was cancelled' });
+        return;
+      }
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        res.status(400).json({ error: 'Empty image' });
+        return;
+      }
+
+      const name = typeof req.query.name === 'string' ? req.query.name.slice(0, 255) : `image-${index + 1}`;
+      addJobImage(req.params.id, index, name, mimeType, req.body);
+      res.status(204).end();
+    },
+  );
+
+  router.get('/:id/images/:index', (req, res) => {
+    const image = getJobImage(req.params.id, Number(req.params.index));
+    if (!image) {
+      res.status(404).json({ error: 'Image not found' });
+      return;
+    }
+    res.type(image.mime_type).send(image.data);
+  });
+
+  router.post('/:id/cancel', (req, res) => {
+    if (getImageCount(req.params.id) === undefined) {
+      res.status(404).json({ error: 'Job not found' });
+      return;
+    }
+    cancelJob(req.params.id);
+    res.json(getJob(req.params.id));
+  });
+
+  router.post('/:id/close', (req, res) => {
+    if (getImageCount(req.params.id) === undefined) {
+      res.status(404).json({ error: 'Job not found' });
+      return;
+    }
+    closeJobUploads(req.params.id);
+    res.json(getJob(req.params.id));
+  });
+
+  router.delete('/:id', (req, res) => {
+    deleteJob(req.params.id);
+    res.status(204).end();
+  });
+
+  return router;
+};
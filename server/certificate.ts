@@ -0,0 +1,71 @@
+/**
+ * Self-signed certificate for HTTPS LAN mode (HTTPS=true). Phones only
+ * allow the camera and clipboard on secure pages, and a LAN address has no
+ * real certificate, so one is generated for localhost and every LAN
+ * address and kept under data/ until it expires or the addresses change.
+ * Each device has to accept the browser's warning once.
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { generate } from 'selfsigned';
+
+const CERT_DIR = process.env.SNAPCONVERT_CERT_DIR || path.resolve('data', 'certs');
+const KEY_PATH = path.join(CERT_DIR, 'lan-key.pem');
+const CERT_PATH = path.join(CERT_DIR, 'lan-cert.pem');
+const VALID_DAYS = 365;
+// Make a new one this long before the old one runs out
+const RENEW_BEFORE_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface TlsFiles {
+  key: string;
+  cert: string;
+}
+
+const readExisting = (addresses: string[]): TlsFiles | null => {
+  try {
+    const key = fs.readFileSync(KEY_PATH, 'utf8');
+    const cert = fs.readFileSync(CERT_PATH, 'utf8');
+    const x509 = new crypto.X509Certificate(cert);
+    const expiresSoon = new Date(x509.validTo).getTime() - Date.now() < RENEW_BEFORE_MS;
+    const coversAll = addresses.every(address => x509.checkIP(address)) && x509.checkHost('localhost');
+    return expiresSoon || !coversAll ? null : { key, cert };
+  } catch {
+    return null;
+  }
+};
+
+/** Reuse the saved certificate if it still fits, otherwise make a new one. */
+export const loadCertificate = async (addresses: string[]): Promise<TlsFiles> => {
+  const existing = readExisting(addresses);
+  if (existing) return existing;
+
+  const notBeforeDate = new Date();
+  const notAfterDate = new Date(notBeforeDate.getTime() + VALID_DAYS * 24 * 60 * 60 * 1000);
+  const pems = await generate([{ name: 'commonName', value: 'SnapConvert LAN' }], {
+    keyType: 'ec',
+    algorithm: 'sha256',
+    notBeforeDate,
+    notAfterDate,
+    extensions: [
+      { name: 'basicConstraints', cA: false },
+      { name: 'keyUsage', digitalSignature: true, keyEncipherment: true },
+      { name: 'extKeyUsage', serverAuth: true },
+      {
+        name: 'subjectAltName',
+        altNames: [
+          { type: 2, value: 'localhost' },
+          { type: 7, ip: '127.0.0.1' },
+          ...addresses.map(ip => ({ type: 7 as const, ip })),
+        ],
+      },
+    ],
+  });
+
+  fs.mkdirSync(CERT_DIR, { recursive: true });
+  fs.writeFileSync(KEY_PATH, pems.private, { mode: 0o600 });
+  fs.writeFileSync(CERT_PATH, pems.cert);
+  console.log(`Created a self-signed certificate for ${['localhost', ...addresses].join(', ')}`);
+  return { key: pems.private, cert: pems.cert };
+};
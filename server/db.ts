@@ -0,0 +1,55 @@
+/**
+ * SQLite storage for conversion jobs. One row per job and one per image,
+ * with the image bytes and extraction result kept alongside its status.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+
+export type { ImageStatus } from '../src/types';
+
+const DB_PATH = process.env.SNAPCONVERT_DB || path.resolve('data', 'snapconvert.db');
+
+let db: Database.Database | null = null;
+
+// Columns added after a table was first created, for databases made by
+// older versions that CREATE TABLE IF NOT EXISTS leaves as they are
+const migrate = (database: Database.Database) => {
+  const jobColumns = database.pragma('table_info(jobs)') as { name: string }[];
+  if (!jobColumns.some(column => column.name === 'cancelled')) {
+    database.exec('ALTER TABLE jobs ADD COLUMN cancelled INTEGER NOT NULL DEFAULT 0');
+  }
+};
+
+export const getDb = (): Database.Database => {
+  if (db) return db;
+
+  fs.mkdirSync(path.dirname(DB_PATH), { recursive: true });
+  db = new Database(DB_PATH);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS jobs (
+      id TEXT PRIMARY KEY,
+      image_count INTEGER NOT NULL,
+      cancelled INTEGER NOT NULL DEFAULT 0,
+      created_at INTEGER NOT NULL
+    );
+    CREATE TABLE IF NOT EXISTS job_images (
+      job_id TEXT NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+      idx INTEGER NOT NULL,
+      name TEXT NOT NULL,
+      mime_type TEXT NOT NULL,
+      data BLOB NOT NULL,
+      status TEXT NOT NULL DEFAULT 'queued',
+      blocks TEXT,
+      error TEXT,
+      updated_at INTEGER NOT NULL,
+      PRIMARY KEY (job_id, idx)
+    );
+    CREATE INDEX IF NOT EXISTS job_images_status ON job_images (status);
+  `);
+  migrate(db);
+  return db;
+};
@@ -0,0 +1,78 @@
+/**
+ * Server-side Gemini client. The API key is read from the environment here
+ * and never reaches the browser.
+ */
+
+import { ApiError, GoogleGenAI } from "@google/genai";
+import { normalizeBlocks } from '../src/blocks';
+import { DEFAULT_RETRY, isRetryableStatus, withRetry } from '../src/concurrency';
+import type { TextBlock } from '../src/types';
+
+const GEMINI_MODEL = "gemini-3-flash-preview";
+
+let ai: GoogleGenAI | null = null;
+
+export const isGeminiConfigured = () => Boolean(process.env.GEMINI_API_KEY);
+
+const client = (): GoogleGenAI => {
+  if (!ai) ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || '' });
+  return ai;
+};
+
+const EXTRACTION_PROMPT = `Extract all text from this image accurately, grouped into blocks (headings, paragraphs, list items, captions) in reading order.
+  Return the result as a JSON array of objects with these properties:
+  - "text": the full plain text of the block. Keep line breaks inside a block as "\\n".
+  - "alignment": horizontal alignment as it appears in the image: "left", "center" or "right".
+  - "direction": "rtl" if the block is written in a right-to-left script such as Arabic, Persian or Hebrew, otherwise "ltr".
+  - "type": one of "heading", "body", "bullet", "numbered", "caption", "table".
+  - "level": for headings 1-6 (1 is the largest); for bullet/numbered items the nesting depth starting at 0. Omit otherwise.
+  - "runs": the text split into runs of uniform emphasis, each {"text", "bold", "italic", "underline"}; the run texts must concatenate to "text". Omit if the block has no emphasis.
+  - "fontSize": approximate font size in points.
+  - "box": the bounding box as [ymin, xmin, ymax, xmax] normalized to 0-1000.
+  - "table": only for type "table" (any grid of cells such as invoices, timetables or forms): {"headerRows": number of header rows, "rows": [[{"text", "alignment", "rowSpan", "colSpan"}]]}. Give rowSpan/colSpan only for merged cells, and omit the positions a merged cell covers from the following rows and columns. For tables, "text" may be empty.
+  Do not include bullet symbols or list numbers in "text".
+  Example: [{"text": "Weekly Report", "alignment": "center", "type": "heading", "level": 1, "fontSize": 20, "box": [40, 300, 80, 700]}, {"text": "Sales rose by 4%.", "alignment": "left", "type": "body", "runs": [{"text": "Sales "}, {"text": "rose", "bold": true}, {"text": " by 4%."}], "fontSize": 11, "box": [100, 80, 130, 600]}, {"text": "Call the supplier", "alignment": "left", "type": "bullet", "level": 0, "fontSize": 11, "box": [140, 100, 170, 500]}]
+  Return ONLY the JSON array.`;
+
+// Gemini rate limits (429) and transient 5xx/network failures are retried
+// with backoff; anything else (bad request, bad key) fails straight away.
+const retryGemini = <T>(fn: () => Promise<T>) =>
+  withRetry(fn, {
+    ...DEFAULT_RETRY,
+    isRetryable: error => error instanceof ApiError
+      ? isRetryableStatus(error.status)
+      : error instanceof TypeError,
+  });
+
+export const extractBlocks = async (data: string, mimeType: string): Promise<TextBlock[]> => {
+  const response = await retryGemini(() => client().models.generateContent({
+    model: GEMINI_MODEL,
+    contents: [
+      {
+        role: "user",
+        parts: [{ inlineData: { data, mimeType } }, { text: EXTRACTION_PROMPT }]
+      }
+    ],
+    config: {
+      responseMimeType: "application/json"
+    }
+  }));
+
+  try {
+    return normalizeBlocks(JSON.parse(response.text || "[]"));
+  } catch (e) {
+    console.error("Failed to parse Gemini response", e);
+    return [{ text: response.text || "", alignment: 'left' }];
+  }
+};
+
+export const suggestFileName = async (text: string): Promise<string> => {
+  const response = await retryGemini(() => client().models.generateContent({
+    model: GEMINI_MODEL,
+    contents: [{
+      role: "user",
+      parts: [{ text: `Based on the following text content, generate a very short filename (2-4 words, no extension, use hyphens between words, lowercase, no special characters). The filename should summarize the content.\n\nContent:\n${text.slice(0, 500)}\n\nReturn ONLY the filename, nothing else.` }]
+    }]
+  }));
+  return response.text || '';
+};
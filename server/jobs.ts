@@ -0,0 +1,215 @@
+/**
+ * Conversion job queue. Images are stored in SQLite as they are uploaded and
+ * a pool of in-process workers (JOB_CONCURRENCY, default 3) extracts them in
+ * queue order. Anything left mid-extraction by a restart is put back in the
+ * queue on startup.
+ */
+
+import crypto from 'crypto';
+import { getDb } from './db';
+import type { ImageStatus } from './db';
+import { extractBlocks } from './gemini';
+import type { TextBlock } from '../src/types';
+
+export type JobStatus = 'uploading' | 'running' | 'done';
+
+export interface JobImageSummary {
+  index: number;
+  name: string;
+  status: ImageStatus;
+  error?: string;
+}
+
+export interface JobSummary {
+  id: string;
+  imageCount: number;
+  status: JobStatus;
+  images: JobImageSummary[];
+}
+
+const JOB_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const IDLE_POLL_MS = 2000;
+const JOB_CONCURRENCY = Math.max(1, Number(process.env.JOB_CONCURRENCY) || 3);
+
+export const createJob = (imageCount: number): string => {
+  const id = crypto.randomUUID();
+  getDb()
+    .prepare('INSERT INTO jobs (id, image_count, created_at) VALUES (?, ?, ?)')
+    .run(id, imageCount, Date.now());
+  return id;
+};
+
+export const getImageCount = (jobId: string): number | undefined => {
+  const row = getDb().prepare('SELECT image_count FROM jobs WHERE id = ?').get(jobId) as
+    { image_count: number } | undefined;
+  return row?.image_count;
+};
+
+export const isJobCancelled = (jobId: string): boolean => {
+  const row = getDb().prepare('SELECT cancelled FROM jobs WHERE id = ?').get(jobId) as
+    { cancelled: number } | undefined;
+  return row?.cancelled === 1;
+};
+
+/**
+ * Stop a job: queued images are marked cancelled and no more uploads are
+ * accepted. An image already being extracted is left to finish.
+ */
+export const cancelJob = (jobId: string) => {
+  const db = getDb();
+  db.transaction(() => {
+    db.prepare('UPDATE jobs SET cancelled = 1 WHERE id = ?').run(jobId);
+    db.prepare("UPDATE job_images SET status = 'cancelled', updated_at = ? WHERE job_id = ? AND status = 'queued'")
+      .run(Date.now(), jobId);
+  })();
+};
+
+/**
+ * Stop waiting for uploads that will never come, e.g. because the tab that
+ * held the images was closed. Uploads go in order, so the job shrinks to the
+ * images it already has and finishes extracting those.
+ */
+export const closeJobUploads = (jobId: string) => {
+  getDb()
+    .prepare('UPDATE jobs SET image_count = (SELECT COALESCE(MAX(idx) + 1, 0) FROM job_images WHERE job_id = ?) WHERE id = ?')
+    .run(jobId, jobId);
+};
+
+/** Store (or replace) one image of a job and queue it for extraction. */
+export const addJobImage = (jobId: string, index: number, name: string, mimeType: string, data: Buffer) => {
+  getDb()
+    .prepare(`
+      INSERT INTO job_images (job_id, idx, name, mime_type, data, status, updated_at)
+      VALUES (?, ?, ?, ?, ?, 'queued', ?)
+      ON CONFLICT (job_id, idx) DO UPDATE SET
+        name = excluded.name, mime_type = excluded.mime_type, data = excluded.data,
+        status = 'queued', blocks = NULL, error = NULL, updated_at = excluded.updated_at
+    `)
+    .run(jobId, index, name, mimeType, data, Date.now());
+  wakeWorker();
+};
+
+export const getJob = (jobId: string): JobSummary | undefined => {
+  const imageCount = getImageCount(jobId);
+  if (imageCount === undefined) return undefined;
+
+  const rows = getDb()
+    .prepare('SELECT idx, name, status, error FROM job_images WHERE job_id = ? ORDER BY idx')
+    .all(jobId) as { idx: number; name: string; status: ImageStatus; error: string | null }[];
+  const images = rows.map(r => ({
+    index: r.idx,
+    name: r.name,
+    status: r.status,
+    ...(r.error && { error: r.error }),
+  }));
+
+  // A cancelled job never receives its remaining uploads, so only what is
+  // still in flight counts.
+  const status: JobStatus = images.length < imageCount && !isJobCancelled(jobId)
+    ? 'uploading'
+    : images.some(i => i.status === 'queued' || i.status === 'extracting') ? 'running' : 'done';
+
+  return { id: jobId, imageCount, status, images };
+};
+
+export const getJobImage = (jobId: string, index: number) =>
+  getDb()
+    .prepare('SELECT name, mime_type, data FROM job_images WHERE job_id = ? AND idx = ?')
+    .get(jobId, index) as { name: string; mime_type: string; data: Buffer } | undefined;
+
+/** Extracted blocks per image in order; null for images that failed or are pending. */
+export const getJobResult = (jobId: string): (TextBlock[] | null)[] => {
+  const imageCount = getImageCount(jobId) ?? 0;
+  const rows = getDb()
+    .prepare("SELECT idx, blocks FROM job_images WHERE job_id = ? AND status = 'done'")
+    .all(jobId) as { idx: number; blocks: string }[];
+  const pages: (TextBlock[] | null)[] = Array(imageCount).fill(null);
+  rows.forEach(r => { pages[r.idx] = JSON.parse(r.blocks); });
+  return pages;
+};
+
+export const deleteJob = (jobId: string) => {
+  getDb().prepare('DELETE FROM jobs WHERE id = ?').run(jobId);
+};
+
+// ─── Worker ─────────────────────────────────────────────
+
+const sleepers = new Set<() => void>();
+
+const wakeWorker = () => {
+  sleepers.forEach(wake => wake());
+  sleepers.clear();
+};
+
+const sleep = (ms: number) =>
+  new Promise<void>(resolve => {
+    const wake = () => { clearTimeout(timer); resolve(); };
+    const timer = setTimeout(() => { sleepers.delete(wake); resolve(); }, ms);
+    sleepers.add(wake);
+  });
+
+const claimNext = () => {
+  const db = getDb();
+  return db.transaction(() => {
+    const next = db
+      .prepare(`
+        SELECT i.job_id, i.idx, i.mime_type, i.data
+        FROM job_images i JOIN jobs j ON j.id = i.job_id
+        WHERE i.status = 'queued'
+        ORDER BY j.created_at, i.idx
+        LIMIT 1
+      `)
+      .get() as { job_id: string; idx: number; mime_type: string; data: Buffer } | undefined;
+    if (next) {
+      db.prepare("UPDATE job_images SET status = 'extracting', updated_at = ? WHERE job_id = ? AND idx = ?")
+        .run(Date.now(), next.job_id, next.idx);
+    }
+    return next;
+  })();
+};
+
+const finish = (jobId: string, index: number, result: { blocks: TextBlock[] } | { error: string }) => {
+  const done = 'blocks' in result;
+  getDb()
+    .prepare(`
+      UPDATE job_images SET status = ?, blocks = ?, error = ?, updated_at = ?
+      WHERE job_id = ? AND idx = ? AND status = 'extracting'
+    `)
+    .run(
+      done ? 'done' : 'failed',
+      done ? JSON.stringify(result.blocks) : null,
+      done ? null : result.error,
+      Date.now(),
+      jobId,
+      index,
+    );
+};
+
+// Claiming happens inside a synchronous SQLite transaction, so concurrent
+// loops never pick the same image.
+const workerLoop = async () => {
+  for (;;) {
+    const next = claimNext();
+    if (!next) {
+      await sleep(IDLE_POLL_MS);
+      continue;
+    }
+
+    try {
+      const blocks = await extractBlocks(next.data.toString('base64'), next.mime_type);
+      finish(next.job_id, next.idx, { blocks });
+    } catch (error) {
+      console.error(`Job ${next.job_id} image ${next.idx} failed:`, error);
+      finish(next.job_id, next.idx, { error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+};
+
+export const startJobWorker = () => {
+  const db = getDb();
+  // Resume: whatever was being extracted when the server stopped goes back in the queue.
+  db.prepare("UPDATE job_images SET status = 'queued' WHERE status = 'extracting'").run();
+  db.prepare('DELETE FROM jobs WHERE created_at < ?').run(Date.now() - JOB_TTL_MS);
+
+  for (let i = 0; i < JOB_CONCURRENCY; i++) workerLoop();
+};
@@ -0,0 +1,23 @@
+/**
+ * The machine's LAN addresses, for the phone upload QR code. The first
+ * non-internal IPv4 address is often a Docker, VM or VPN bridge the phone
+ * can't reach, so every candidate is listed with the likely-virtual ones
+ * last and the user picks in the phone dialog.
+ */
+
+import os from 'os';
+import type { LanAddress } from '../src/lanAddresses';
+
+const VIRTUAL_INTERFACE = /^(docker|br-|veth|virbr|vbox|vmnet|vEthernet|utun|tun|tap|wg|tailscale|zt|ham|lxc|lxd|cni|flannel)|VirtualBox|VMware|Hyper-V/i;
+
+export const lanAddresses = (): LanAddress[] => {
+  const found: LanAddress[] = [];
+  for (const [name, entries] of Object.entries(os.networkInterfaces())) {
+    for (const entry of entries || []) {
+      if (entry.family !== 'IPv4' || entry.internal) continue;
+      found.push({ name, address: entry.address, virtual: VIRTUAL_INTERFACE.test(name) });
+    }
+  }
+  // Stable sort: real interfaces first, each group in the OS's order
+  return found.sort((a, b) => Number(a.virtual) - Number(b.virtual));
+};
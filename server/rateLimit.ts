@@ -0,0 +1,43 @@
+/**
+ * Fixed-window, per-client rate limiter kept in memory. Good enough for a
+ * single-process LAN server; clients are keyed by IP address.
+ */
+
+import type { RequestHandler } from 'express';
+
+interface RateLimitOptions {
+  windowMs: number;
+  max: number;
+}
+
+export const rateLimit = ({ windowMs, max }: RateLimitOptions): RequestHandler => {
+  const hits = new Map<string, { count: number; resetAt: number }>();
+
+  // Drop expired windows so the map doesn't grow with every client ever seen.
+  setInterval(() => {
+    const now = Date.now();
+    for (const [key, entry] of hits) {
+      if (entry.resetAt <= now) hits.delete(key);
+    }
+  }, windowMs).unref();
+
+  return (req, res, next) => {
+    const key = req.ip || req.socket.remoteAddress || 'unknown';
+    const now = Date.now();
+    let entry = hits.get(key);
+    if (!entry || entry.resetAt <= now) {
+      entry = { count: 0, resetAt: now + windowMs };
+      hits.set(key, entry);
+    }
+    entry.count++;
+
+    res.setHeader('RateLimit-Limit', String(max));
+    res.setHeader('RateLimit-Remaining', String(Math.max(max - entry.count, 0)));
+    if (entry.count > max) {
+      res.setHeader('Retry-After', String(Math.ceil((entry.resetAt - now) / 1000)));
+      res.status(429).json({ error: 'Too many requests' });
+      return;
+    }
+    next();
+  };
+};
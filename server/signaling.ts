@@ -0,0 +1,22 @@
+/**
+ * PeerJS signalling server for phone upload. Hosting it next to the app
+ * means pairing only needs the PC to be reachable from the phone, not
+ * internet access to the public PeerJS broker. Only connection setup goes
+ * through here; files still travel directly between the two browsers.
+ */
+
+import type http from 'http';
+import { ExpressPeerServer } from 'peer';
+
+// Matches PEER_PATH in src/peer.ts
+export const PEER_PATH = '/peerjs';
+
+export const createPeerServer = (server: http.Server) => {
+  const peerServer = ExpressPeerServer(server, {
+    path: '/',
+    // Phones only ever connect to the id in their QR code
+    allow_discovery: false,
+  });
+  peerServer.on('error', error => console.error('PeerServer error:', error));
+  return peerServer;
+};
@@ -19,187 +19,336 @@ import {
   Type,
   Copy,
   ClipboardCheck,
-  Smartphone
+  Smartphone,
+  Clock,
+  AlertCircle,
+  Ban,
+  PencilLine,
+  Crop,
+  Undo2,
+  GripVertical,
+  ArrowDownAZ,
+  CalendarClock,
+  SendHorizontal
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
 import PhoneUploadModal from './PhoneUploadModal';
-import { Document, Packer, Paragraph, TextRun, AlignmentType } from 'docx';
+import { LANGUAGES, detectLang, formatMessage, langDirection, locales, plural, saveLang } from './i18n';
+import type { Lang, Messages } from './i18n';
+import { deviceColor, usePhoneSession } from './usePhoneSession';
+import type { PhoneDevice } from './usePhoneSession';
+import ReviewEditor from './ReviewEditor';
+import CropEditor from './CropEditor';
+import { readCaptureDate } from './exif';
+import PdfPagesModal from './PdfPagesModal';
+import { ACCEPTED_INPUTS, toSupportedImage } from './inputs';
+import { checkFiles, MAX_FILE_BYTES, MAX_PDF_BYTES } from './intake';
+import type { AcceptedFile, Rejection, RejectionReason } from './intake';
+import { DEFAULT_PREPROCESS, MAX_DIMENSION_CHOICES, preprocessImage } from './preprocess';
+import { getExporter, listExporters, pagesToPlainText } from './exporters';
+import type { ExportFormat } from './exporters';
+import { checkOcrProviders, getOcrProvider, listOcrProviders } from './ocr';
+import type { BatchOptions, OcrProviderId } from './ocr';
+import { retryTransient } from './api';
+import { mapPool } from './concurrency';
+import { closeJobUploads, discardJob, getActiveJobId, restoreJobFiles, waitForJob } from './jobs';
+import type { ImageStatus, PartialPages, TextBlock } from './types';
 import { saveAs } from 'file-saver';
 import confetti from 'canvas-confetti';
-import { GoogleGenAI } from "@google/genai";
-
-const ai = new GoogleGenAI({ apiKey: process.env.GEMINI_API_KEY || '' });
-
-// ─── i18n ───────────────────────────────────────────────
-type Lang = 'en' | 'es' | 'tr';
-
-const LANGUAGES: { code: Lang; label: string; flag: string }[] = [
-  { code: 'en', label: 'English', flag: '🇬🇧' },
-  { code: 'es', label: 'Español', flag: '🇪🇸' },
-  { code: 'tr', label: 'Türkçe', flag: '🇹🇷' },
-];
-
-const translations: Record<Lang, Record<string, string>> = {
-  en: {
-    subtitle: 'Extract text from your images and save them as professional Word documents.',
-    dropImages: 'Drop your images here',
-    addMore: 'Add more images',
-    fileHint: 'Supports JPG and PNG up to 10MB each',
-    selectedImages: 'Selected Images',
-    clearAll: 'Clear all',
-    converting: 'Extracting & Converting…',
-    success: 'Success!',
-    convertBtn: 'Convert to Word (DOCX)',
-    extractTextBtn: 'Extract Text',
-    extracting: 'Extracting text…',
-    copyText: 'Copy',
-    copiedText: 'Copied!',
-    download: 'Download',
-    processingImage: 'Processing image',
-    generatingFile: 'Generating file…',
-    of: 'of',
-    readyToDownload: 'Ready to download',
-    conversionComplete: 'Conversion complete!',
-    downloadedAuto: 'Your file has been downloaded automatically.',
-    conversionFailed: 'Conversion failed. Please try again.',
-    footer: 'Privacy First • No Server Uploads',
-    uploadFromPhone: 'Upload from Phone',
-    scanQR: 'Scan this QR code with your phone to send photos',
-    sameWifi: 'Both devices must be on the same WiFi network',
-    orTypeUrl: 'Or type this URL on your phone:',
-    phoneConnected: 'Phone connected!',
-    waitingForPhotos: 'Waiting for photos…',
-    receivingPhotos: 'Receiving photos…',
-    photosReceived: 'Photos received!',
-    photosAdded: 'photos added to SnapConvert',
-    doneContinue: 'Continue',
-    phoneError: 'Connection error',
-    phoneErrorDetail: 'Please close and try again.',
-    phoneInitializing: 'Setting up connection…',
-    close: 'Close',
-  },
-  es: {
-    subtitle: 'Extrae texto de tus imágenes y guárdalas como documentos profesionales en Word.',
-    dropImages: 'Suelta tus imágenes aquí',
-    addMore: 'Añadir más imágenes',
-    fileHint: 'Admite JPG y PNG de hasta 10 MB cada uno',
-    selectedImages: 'Imágenes seleccionadas',
-    clearAll: 'Borrar todo',
-    converting: 'Extrayendo y convirtiendo…',
-    success: '¡Éxito!',
-    convertBtn: 'Convertir a Word (DOCX)',
-    extractTextBtn: 'Extraer texto',
-    extracting: 'Extrayendo texto…',
-    copyText: 'Copiar',
-    copiedText: '¡Copiado!',
-    download: 'Descargar',
-    processingImage: 'Procesando imagen',
-    generatingFile: 'Generando archivo…',
-    of: 'de',
-    readyToDownload: 'Listo para descargar',
-    conversionComplete: '¡Conversión completa!',
-    downloadedAuto: 'Tu archivo se ha descargado automáticamente.',
-    conversionFailed: 'La conversión falló. Inténtalo de nuevo.',
-    footer: 'Privacidad ante todo • Sin subidas al servidor',
-    uploadFromPhone: 'Subir desde el teléfono',
-    scanQR: 'Escanea este código QR con tu teléfono para enviar fotos',
-    sameWifi: 'Ambos dispositivos deben estar en la misma red WiFi',
-    orTypeUrl: 'O escribe esta URL en tu teléfono:',
-    phoneConnected: '¡Teléfono conectado!',
-    waitingForPhotos: 'Esperando fotos…',
-    receivingPhotos: 'Recibiendo fotos…',
-    photosReceived: '¡Fotos recibidas!',
-    photosAdded: 'fotos añadidas a SnapConvert',
-    doneContinue: 'Continuar',
-    phoneError: 'Error de conexión',
-    phoneErrorDetail: 'Por favor, cierra e inténtalo de nuevo.',
-    phoneInitializing: 'Configurando conexión…',
-    close: 'Cerrar',
-  },
-  tr: {
-    subtitle: 'Görsellerinizdeki metni çıkarın ve profesyonel Word belgeleri olarak kaydedin.',
-    dropImages: 'Görsellerinizi buraya bırakın',
-    addMore: 'Daha fazla görsel ekle',
-    fileHint: 'Her biri en fazla 10 MB boyutunda JPG ve PNG desteklenir',
-    selectedImages: 'Seçilen Görseller',
-    clearAll: 'Tümünü temizle',
-    converting: 'Çıkarılıyor ve dönüştürülüyor…',
-    success: 'Başarılı!',
-    convertBtn: "Word'e Dönüştür (DOCX)",
-    extractTextBtn: 'Metin Çıkar',
-    extracting: 'Metin çıkarılıyor…',
-    copyText: 'Kopyala',
-    copiedText: 'Kopyalandı!',
-    download: 'İndir',
-    processingImage: 'Görsel işleniyor',
-    generatingFile: 'Dosya oluşturuluyor…',
-    of: '/',
-    readyToDownload: 'İndirmeye hazır',
-    conversionComplete: 'Dönüştürme tamamlandı!',
-    downloadedAuto: 'Dosyanız otomatik olarak indirildi.',
-    conversionFailed: 'Dönüştürme başarısız oldu. Lütfen tekrar deneyin.',
-    footer: 'Önce Gizlilik • Sunucuya Yükleme Yok',
-    uploadFromPhone: 'Telefondan Yükle',
-    scanQR: 'Fotoğraf göndermek için telefonunuzla bu QR kodu okutun',
-    sameWifi: 'Her iki cihaz da aynı WiFi ağında olmalıdır',
-    orTypeUrl: 'Veya bu URL\'yi telefonunuza yazın:',
-    phoneConnected: 'Telefon bağlandı!',
-    waitingForPhotos: 'Fotoğraflar bekleniyor…',
-    receivingPhotos: 'Fotoğraflar alınıyor…',
-    photosReceived: 'Fotoğraflar alındı!',
-    photosAdded: 'fotoğraf SnapConvert\'e eklendi',
-    doneContinue: 'Devam',
-    phoneError: 'Bağlantı hatası',
-    phoneErrorDetail: 'Lütfen kapatıp tekrar deneyin.',
-    phoneInitializing: 'Bağlantı kuruluyor…',
-    close: 'Kapat',
-  },
-};
-// ─────────────────────────────────────────────────────────
+
+// Which phone sent an image, by the label the phone dialog lists it under
+interface FileSource {
+  device: string;
+}
 
 interface FileItem {
   id: string;
   file: File;
   preview: string;
+  // Content hash of what was added, for spotting duplicates
+  hash?: string;
+  // The image as first added, kept after a crop so it can be restored
+  original?: File;
+  // Set for images that came in over a phone session
+  source?: FileSource;
+  // Preprocessed copy that is actually sent for extraction
+  processed?: {
+    file: File;
+    preview: string;
+    maxDimension: number;
+  };
+}
+
+// What the user asked for when the current server job was submitted, so a
+// reload can finish the same action once the job completes.
+interface PendingAction {
+  action: 'convert' | 'extract' | 'review';
+  format: ExportFormat;
+}
+
+const PENDING_ACTION_KEY = 'snapconvert.pendingAction';
+
+type Phase = 'extracting' | 'exporting' | 'naming' | 'done';
+
+// Extracted pages held for editing, alongside the images they came from
+interface ReviewState {
+  images: File[];
+  previews: string[];
+  pages: TextBlock[][];
+}
+
+type Extraction = (images: File[], options: BatchOptions) => Promise<PartialPages>;
+
+const loadPendingAction = (): PendingAction | null => {
+  try {
+    return JSON.parse(localStorage.getItem(PENDING_ACTION_KEY) || 'null');
+  } catch {
+    return null;
+  }
+};
+
+/** Move one entry of a list to a new index. */
+const moveItem = <T,>(list: T[], from: number, to: number): T[] => {
+  const result = [...list];
+  const [item] = result.splice(from, 1);
+  result.splice(to, 0, item);
+  return result;
+};
+
+// Distance from the grid's top or bottom edge that scrolls it while dragging
+const AUTO_SCROLL_EDGE = 48;
+
+const statusBadgeStyles: Record<ImageStatus, { icon: typeof Clock; className: string }> = {
+  queued: { icon: Clock, className: 'bg-white/90 text-[#666]' },
+  extracting: { icon: Loader2, className: 'bg-white/90 text-black [&>svg]:animate-spin' },
+  done: { icon: CheckCircle2, className: 'bg-green-500 text-white' },
+  failed: { icon: AlertCircle, className: 'bg-red-500 text-white' },
+  cancelled: { icon: Ban, className: 'bg-[#999] text-white' },
+};
+
+function StatusBadge({ status, label }: { status: ImageStatus; label: string }) {
+  const { icon: Icon, className } = statusBadgeStyles[status];
+  return (
+    <div
+      title={label}
+      aria-label={label}
+      className={`absolute top-2 end-2 w-7 h-7 rounded-full flex items-center justify-center shadow-sm ${className}`}
+    >
+      <Icon className="w-4 h-4" />
+    </div>
+  );
+}
+
+type PhoneSendState = 'idle' | 'sending' | 'sent' | 'failed';
+
+const phoneSendStyles: Record<PhoneSendState, string> = {
+  idle: 'bg-black/5 hover:bg-black/10 text-[#1A1A1A]',
+  sending: 'bg-black/5 text-[#999]',
+  sent: 'bg-emerald-50 text-emerald-700',
+  failed: 'bg-red-50 text-red-700 hover:bg-red-100',
+};
+
+// One button per connected phone
+function PhoneSendButtons({ devices, states, onSend, t }: {
+  devices: PhoneDevice[];
+  states: Record<string, PhoneSendState>;
+  onSend: (deviceId: string) => void;
+  t: Messages;
+}) {
+  const labels: Record<PhoneSendState, string> = {
+    idle: t.sendToPhone,
+    sending: t.sendingToPhone,
+    sent: t.sentToPhone,
+    failed: t.sendToPhoneFailed,
+  };
+  return (
+    <div className="flex flex-wrap justify-end gap-2">
+      {devices.map(device => {
+        const state = states[device.id] ?? 'idle';
+        return (
+          <button
+            key={device.id}
+            onClick={() => onSend(device.id)}
+            disabled={state === 'sending'}
+            className={`inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg transition-colors text-xs font-medium flex-shrink-0 ${phoneSendStyles[state]}`}
+          >
+            {state === 'sending' ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : state === 'sent' ? <CheckCircle2 className="w-3.5 h-3.5" /> : <SendHorizontal className="w-3.5 h-3.5" />}
+            {formatMessage(labels[state], { device: device.label })}
+          </button>
+        );
+      })}
+    </div>
+  );
 }
 
 export default function App() {
   const [files, setFiles] = useState<FileItem[]>([]);
   const [isConverting, setIsConverting] = useState(false);
+  const [format, setFormat] = useState<ExportFormat>('docx');
+  const [ocrProvider, setOcrProvider] = useState<OcrProviderId>('gemini');
+  const [ocrAvailability, setOcrAvailability] = useState<Partial<Record<OcrProviderId, boolean>>>({});
   const [isSuccess, setIsSuccess] = useState(false);
-  const [lang, setLang] = useState<Lang>('tr');
+  const [lang, setLang] = useState<Lang>(detectLang);
   const [langMenuOpen, setLangMenuOpen] = useState(false);
   const [resultBlob, setResultBlob] = useState<Blob | null>(null);
   const [resultFileName, setResultFileName] = useState('');
-  const [progress, setProgress] = useState(0);
-  const [progressLabel, setProgressLabel] = useState('');
+  // Plain text of the last converted document, sent to the phone alongside it
+  const [resultText, setResultText] = useState('');
+  const [phoneSend, setPhoneSend] = useState<Record<string, PhoneSendState>>({});
+  const [action, setAction] = useState<PendingAction['action']>('convert');
+  const [phase, setPhase] = useState<Phase>('extracting');
+  const [imageStatus, setImageStatus] = useState<Record<string, ImageStatus>>({});
+  const [isCancelling, setIsCancelling] = useState(false);
   const [extractedText, setExtractedText] = useState('');
   const [isExtracting, setIsExtracting] = useState(false);
   const [copied, setCopied] = useState(false);
   const [showPhoneModal, setShowPhoneModal] = useState(false);
+  const [review, setReview] = useState<ReviewState | null>(null);
+  const [maxDimension, setMaxDimension] = useState(DEFAULT_PREPROCESS.maxDimension);
+  const [showOriginal, setShowOriginal] = useState<Record<string, boolean>>({});
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [isSorting, setIsSorting] = useState(false);
+  const [pdfQueue, setPdfQueue] = useState<(AcceptedFile & { source?: FileSource })[]>([]);
+  const [autoExtractPhone, setAutoExtractPhone] = useState(false);
+  const [rejections, setRejections] = useState<Rejection[]>([]);
+  const [importingCount, setImportingCount] = useState(0);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const resumedRef = useRef(false);
+  const abortRef = useRef<AbortController | null>(null);
+  const gridRef = useRef<HTMLDivElement>(null);
+  const filesRef = useRef<FileItem[]>([]);
+  filesRef.current = files;
+  const maxDimensionRef = useRef(maxDimension);
+  maxDimensionRef.current = maxDimension;
+  // Extraction started early for phone pages, keyed by the prepared image
+  const earlyRef = useRef(new WeakMap<File, { provider: OcrProviderId; run: Promise<TextBlock[] | null> }>());
+  // The early runs go one at a time, each chained onto the last
+  const earlyChainRef = useRef<Promise<unknown>>(Promise.resolve());
+  // Cancel stops the early runs too; each Cancel swaps in a fresh controller
+  const earlyAbortRef = useRef(new AbortController());
+  // Preprocessing runs keyed by `${id}:${maxDimension}`
+  const preprocessRef = useRef(new Map<string, Promise<File>>());
 
-  const t = translations[lang];
+  const t = locales[lang];
+  const editingFile = files.find(f => f.id === editingId);
   const currentLang = LANGUAGES.find(l => l.code === lang)!;
 
+  // Progress comes from real events: images finishing, then packing the
+  // document and naming it. Extraction is the whole job for "Extract Text"
+  // and "Review & Edit".
+  const runStatuses = Object.values(imageStatus);
+  const finishedCount = runStatuses.filter(s => s !== 'queued' && s !== 'extracting').length;
+  const extractionShare = action === 'convert' ? 85 : 100;
+  const progress = phase === 'extracting'
+    ? Math.round((finishedCount / Math.max(runStatuses.length, 1)) * extractionShare)
+    : phase === 'exporting' ? 85 : phase === 'naming' ? 95 : 100;
+  const progressLabel = isCancelling
+    ? t.cancelling
+    : phase === 'extracting'
+      ? `${t.processingImage} ${Math.min(finishedCount + 1, runStatuses.length)} ${t.of} ${runStatuses.length}`
+      : phase === 'exporting' ? t.generatingFile : phase === 'naming' ? t.namingFile : '';
+  const rejectionLabels: Record<RejectionReason, string> = {
+    tooLarge: formatMessage(t.rejectTooLarge, { size: MAX_FILE_BYTES / 1024 / 1024 }),
+    pdfTooLarge: formatMessage(t.rejectTooLarge, { size: MAX_PDF_BYTES / 1024 / 1024 }),
+    unsupported: t.rejectUnsupported,
+    duplicate: t.rejectDuplicate,
+    convertFailed: t.rejectConvertFailed,
+  };
+  const statusLabels: Record<ImageStatus, string> = {
+    queued: t.statusQueued,
+    extracting: t.statusExtracting,
+    done: t.statusDone,
+    failed: t.statusFailed,
+    cancelled: t.statusCancelled,
+  };
+
+  const appendImages = (images: { file: File; hash: string }[], source?: FileSource) => {
+    if (images.length === 0) return;
+    const newFiles: FileItem[] = images.map(({ file, hash }) => ({
+      id: Math.random().toString(36).substring(7),
+      file,
+      hash,
+      preview: window.URL.createObjectURL(file),
+      ...(source && { source }),
+    }));
+    setFiles(prev => [...prev, ...newFiles]);
+    setIsSuccess(false);
+    setResultBlob(null);
+    setResultFileName('');
+  };
+
+  const reportRejections = (rejected: Rejection[]) => {
+    if (rejected.length > 0) setRejections(prev => [...prev, ...rejected]);
+  };
+
+  // Every way of adding files ends here. Files are checked by content, size
+  // and hash; HEIC and WebP are converted to JPEG, and PDFs wait in a queue
+  // for their pages to be picked.
+  const addFiles = async (incoming: File[], source?: FileSource) => {
+    if (incoming.length === 0) return;
+    setImportingCount(prev => prev + incoming.length);
+    try {
+      const known = new Set<string>(filesRef.current.map(f => f.hash).filter((hash): hash is string => !!hash));
+      const { accepted, rejected } = await checkFiles(incoming, known);
+
+      const pdfs = accepted.filter(entry => entry.kind === 'pdf');
+      if (pdfs.length > 0) setPdfQueue(prev => [...prev, ...pdfs.map(pdf => ({ ...pdf, source }))]);
+
+      const images = accepted.filter(entry => entry.kind !== 'pdf');
+      const converted = await Promise.all(images.map(({ file, kind, hash }) => toSupportedImage(file, kind)
+        .then(image => ({ file: image, hash }))
+        .catch(error => {
+          console.error(`Could not convert ${file.name}:`, error);
+          rejected.push({ name: file.name, reason: 'convertFailed' });
+          return null;
+        })));
+      appendImages(converted.filter((entry): entry is { file: File; hash: string } => entry !== null), source);
+      reportRejections(rejected);
+    } finally {
+      setImportingCount(prev => prev - incoming.length);
+    }
+  };
+
+  // Each PDF page is keyed by the PDF's hash and page number, so importing
+  // the same pages twice is caught while other pages of it can still be added.
+  const handlePdfImport = (pdf: AcceptedFile & { source?: FileSource }, images: File[], pages: number[]) => {
+    const known = new Set(files.map(f => f.hash));
+    const entries = images.map((file, i) => ({ file, hash: `${pdf.hash}#${pages[i]}` }));
+    appendImages(entries.filter(entry => !known.has(entry.hash)), pdf.source);
+    reportRejections(entries
+      .filter(entry => known.has(entry.hash))
+      .map(entry => ({ name: entry.file.name, reason: 'duplicate' as const })));
+    setPdfQueue(prev => prev.slice(1));
+  };
+  const addFilesRef = useRef(addFiles);
+  addFilesRef.current = addFiles;
+
+  // Files from paired phones join the list one by one as they arrive
+  const phoneSession = usePhoneSession(useCallback((file: File, device: string) => {
+    addFilesRef.current([file], { device });
+  }, []), lang);
+
   const onFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
-      const filesArray = Array.from(e.target.files) as File[];
-      const newFiles = filesArray.map(file => ({
-        id: Math.random().toString(36).substring(7),
-        file,
-        preview: window.URL.createObjectURL(file)
-      }));
-      setFiles(prev => [...prev, ...newFiles]);
-      setIsSuccess(false);
-      setResultBlob(null);
-      setResultFileName('');
+      addFiles(Array.from(e.target.files) as File[]);
+      // Allow picking the same file again
+      e.target.value = '';
     }
   };
 
+  const revokePreviews = (item: FileItem) => {
+    window.URL.revokeObjectURL(item.preview);
+    if (item.processed) window.URL.revokeObjectURL(item.processed.preview);
+  };
+
   const clearFiles = () => {
-    files.forEach(f => window.URL.revokeObjectURL(f.preview));
+    files.forEach(revokePreviews);
     setFiles([]);
+    setImageStatus({});
+    setShowOriginal({});
+    setRejections([]);
+    closeReview();
     setIsSuccess(false);
     setResultBlob(null);
     setResultFileName('');
@@ -209,17 +358,206 @@ export default function App() {
   const removeFile = (id: string) => {
     const removed = files.find(f => f.id === id);
     if (removed) {
-      window.URL.revokeObjectURL(removed.preview);
+      revokePreviews(removed);
     }
     setFiles(prev => prev.filter(f => f.id !== id));
   };
 
+  // Swap an image for an edited version in place. It gets a fresh id so
+  // preprocessing and status tracking treat it as a new image.
+  const replaceFile = (id: string, file: File, original: File | undefined) => {
+    const replaced = files.find(f => f.id === id);
+    if (!replaced) return;
+    revokePreviews(replaced);
+    const item: FileItem = {
+      id: Math.random().toString(36).substring(7),
+      file,
+      preview: window.URL.createObjectURL(file),
+      ...(replaced.hash && { hash: replaced.hash }),
+      ...(replaced.source && { source: replaced.source }),
+      ...(original && { original }),
+    };
+    setFiles(prev => prev.map(f => (f.id === id ? item : f)));
+    setIsSuccess(false);
+    setResultBlob(null);
+    setResultFileName('');
+  };
+
+  const handleCropSave = (id: string, file: File) => {
+    const item = files.find(f => f.id === id);
+    if (item) replaceFile(id, file, item.original ?? item.file);
+    setEditingId(null);
+  };
+
+  const undoEdit = (id: string) => {
+    const item = files.find(f => f.id === id);
+    if (item?.original) replaceFile(id, item.original, undefined);
+  };
+
+  // Reordering: the grip handle on each thumbnail drags with mouse or touch,
+  // and moves with the arrow keys when focused. Pages follow this order.
+  const handleGripPointerMove = (e: React.PointerEvent) => {
+    if (!draggingId) return;
+
+    const grid = gridRef.current;
+    if (grid) {
+      const rect = grid.getBoundingClientRect();
+      if (e.clientY < rect.top + AUTO_SCROLL_EDGE) grid.scrollBy(0, -10);
+      else if (e.clientY > rect.bottom - AUTO_SCROLL_EDGE) grid.scrollBy(0, 10);
+    }
+
+    const target = document.elementFromPoint(e.clientX, e.clientY)?.closest<HTMLElement>('[data-file-id]');
+    const targetId = target?.dataset.fileId;
+    if (!targetId || targetId === draggingId) return;
+    setFiles(prev => {
+      const from = prev.findIndex(f => f.id === draggingId);
+      const to = prev.findIndex(f => f.id === targetId);
+      return from < 0 || to < 0 ? prev : moveItem(prev, from, to);
+    });
+  };
+
+  const handleGripKeyDown = (index: number) => (e: React.KeyboardEvent) => {
+    // The grid runs right to left in an RTL layout
+    const step = langDirection(lang) === 'rtl' ? -1 : 1;
+    const to = {
+      ArrowLeft: index - step,
+      ArrowUp: index - 1,
+      ArrowRight: index + step,
+      ArrowDown: index + 1,
+      Home: 0,
+      End: files.length - 1,
+    }[e.key as string];
+    if (to === undefined) return;
+    e.preventDefault();
+    if (to >= 0 && to < files.length && to !== index) {
+      setFiles(prev => moveItem(prev, index, to));
+    }
+  };
+
+  const sortFiles = async (by: 'name' | 'date' | 'device') => {
+    setIsSorting(true);
+    try {
+      const collator = new Intl.Collator(lang, { numeric: true, sensitivity: 'base' });
+      // Photos without an EXIF date fall back to the file's modified time
+      const dates = by === 'date'
+        ? await Promise.all(files.map(async f =>
+          (await readCaptureDate(f.original ?? f.file).catch(() => null)) ?? f.file.lastModified))
+        : [];
+      const sorted = files
+        .map((file, i) => ({ file, date: dates[i] }))
+        .sort((a, b) => {
+          if (by === 'date') return a.date - b.date;
+          // Groups pages by who sent them, desktop uploads first; each group keeps its order
+          if (by === 'device') return collator.compare(a.file.source?.device ?? '', b.file.source?.device ?? '');
+          return collator.compare(a.file.file.name, b.file.file.name);
+        })
+        .map(entry => entry.file);
+      // Keep images added while the dates were being read
+      setFiles(prev => [...sorted.filter(f => prev.some(p => p.id === f.id)), ...prev.filter(p => !sorted.some(f => f.id === p.id))]);
+    } finally {
+      setIsSorting(false);
+    }
+  };
+
+  React.useEffect(() => {
+    document.documentElement.lang = lang;
+    document.documentElement.dir = langDirection(lang);
+  }, [lang]);
+
+  // Fall back to the first usable provider when the server has no Gemini key
+  React.useEffect(() => {
+    checkOcrProviders().then(availability => {
+      setOcrAvailability(availability);
+      setOcrProvider(current => availability[current]
+        ? current
+        : listOcrProviders().find(p => availability[p.id])?.id ?? current);
+    });
+  }, []);
+
+  // Resume a server job left running when the tab was closed or reloaded
+  React.useEffect(() => {
+    if (resumedRef.current) return;
+    resumedRef.current = true;
+
+    const jobId = getActiveJobId();
+    const pending = loadPendingAction();
+    if (!jobId || !pending) return;
+
+    closeJobUploads(jobId)
+      .then(async missing => {
+        const images = await restoreJobFiles(jobId);
+        if (missing > 0) alert(plural(lang, t.resumeMissingPages, missing));
+        if (images.length === 0) {
+          discardJob(jobId);
+          localStorage.removeItem(PENDING_ACTION_KEY);
+          return;
+        }
+        // The server kept the preprocessed copies, so use them as they are
+        const items = images.map(file => {
+          const preview = window.URL.createObjectURL(file);
+          return {
+            id: Math.random().toString(36).substring(7),
+            file,
+            preview,
+            processed: { file, preview, maxDimension },
+          };
+        });
+        setFiles(items);
+        setFormat(pending.format);
+        const resume: Extraction = (_images, options) => waitForJob(jobId, options);
+        if (pending.action === 'convert') {
+          handleConvert(items, resume, pending.format);
+        } else if (pending.action === 'review') {
+          handleReview(items, resume);
+        } else {
+          handleExtractText(items, resume);
+        }
+      })
+      .catch(error => {
+        console.error('Could not resume job:', error);
+        discardJob(jobId);
+        localStorage.removeItem(PENDING_ACTION_KEY);
+      });
+  }, []);
+
+  // Preprocess new images in the background, and all of them again when the
+  // size limit changes. Extraction waits on the same runs.
+  const prepareImage = (item: FileItem): Promise<File> => {
+    if (item.processed?.maxDimension === maxDimension) return Promise.resolve(item.processed.file);
+
+    const key = `${item.id}:${maxDimension}`;
+    let run = preprocessRef.current.get(key);
+    if (!run) {
+      run = preprocessImage(item.file, { ...DEFAULT_PREPROCESS, maxDimension }).catch(error => {
+        console.error(`Preprocessing failed for ${item.file.name}:`, error);
+        return item.file;
+      });
+      preprocessRef.current.set(key, run);
+
+      const dimension = maxDimension;
+      run.then(file => {
+        const current = filesRef.current.find(f => f.id === item.id);
+        if (!current || dimension !== maxDimensionRef.current || current.processed?.maxDimension === dimension) return;
+        if (current.processed && current.processed.preview !== current.preview) {
+          window.URL.revokeObjectURL(current.processed.preview);
+        }
+        const processed = { file, preview: window.URL.createObjectURL(file), maxDimension: dimension };
+        setFiles(prev => prev.map(f => (f.id === item.id ? { ...f, processed } : f)));
+      });
+    }
+    return run;
+  };
+
+  React.useEffect(() => {
+    files.forEach(prepareImage);
+  }, [files, maxDimension]);
+
   // Cleanup on unmount
   React.useEffect(() => {
     return () => {
-      files.forEach(f => window.URL.revokeObjectURL(f.preview));
+      filesRef.current.forEach(revokePreviews);
     };
-  }, [files]);
+  }, []);
 
   const handleDragOver = (e: React.DragEvent) => {
     e.preventDefault();
@@ -228,164 +566,193 @@ export default function App() {
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault();
     if (e.dataTransfer.files) {
-      const filesArray = Array.from(e.dataTransfer.files) as File[];
-      const newFiles = filesArray
-        .filter(file => file.type.startsWith('image/'))
-        .map(file => ({
-          id: Math.random().toString(36).substring(7),
-          file,
-          preview: window.URL.createObjectURL(file)
-        }));
-      setFiles(prev => [...prev, ...newFiles]);
-      setIsSuccess(false);
+      addFiles(Array.from(e.dataTransfer.files) as File[]);
     }
   };
 
-  const fileToGenerativePart = async (file: File) => {
-    const base64Data = await new Promise<string>((resolve) => {
-      const reader = new FileReader();
-      reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
-      reader.readAsDataURL(file);
+  const extractFresh: Extraction = async (images, options) => {
+    const provider = getOcrProvider(ocrProvider);
+    if (provider.extractBatch) {
+      return provider.extractBatch(images, options);
+    }
+
+    // Images are extracted in parallel and retried individually; one that
+    // still fails becomes an empty page instead of sinking the whole batch.
+    const { signal, onImageStatus } = options;
+    let failed = 0;
+    const pages: PartialPages = await mapPool(images, provider.maxConcurrency, async (image: File, index: number) => {
+      if (signal.aborted) {
+        onImageStatus(index, 'cancelled');
+        return null;
+      }
+      onImageStatus(index, 'extracting');
+      try {
+        const blocks = await retryTransient(() => provider.extractBlocks(image, signal), signal);
+        onImageStatus(index, 'done');
+        return blocks;
+      } catch (error) {
+        if (signal.aborted) {
+          onImageStatus(index, 'cancelled');
+          return null;
+        }
+        console.error(`Extraction failed for ${image.name}:`, error);
+        failed++;
+        onImageStatus(index, 'failed');
+        return [];
+      }
+    });
+    if (!signal.aborted && failed === images.length) throw new Error('All images failed');
+    return pages;
+  };
+
+  // Phone pages may have been extracted as they arrived; only the rest go
+  // to the provider now. Waiting on those early runs ends at Cancel.
+  const extractTextFromImages: Extraction = async (images, options) => {
+    const { signal } = options;
+    const aborted = new Promise<null>(resolve => {
+      if (signal.aborted) resolve(null);
+      signal.addEventListener('abort', () => resolve(null), { once: true });
     });
-    return {
-      inlineData: {
-        data: base64Data,
-        mimeType: file.type,
-      },
-    };
+    const early = await Promise.all(images.map(image => {
+      const entry = earlyRef.current.get(image);
+      return entry?.provider === ocrProvider ? Promise.race([entry.run, aborted]) : null;
+    }));
+    early.forEach((blocks, index) => {
+      if (blocks) options.onImageStatus(index, 'done');
+    });
+    const pending = images.map((_, index) => index).filter(index => !early[index]);
+    if (signal.aborted) pending.forEach(index => options.onImageStatus(index, 'cancelled'));
+    if (pending.length === 0 || signal.aborted) return early;
+
+    const fresh = await extractFresh(pending.map(index => images[index]), {
+      ...options,
+      onImageStatus: (index, status) => options.onImageStatus(pending[index], status),
+    });
+    return early.map((blocks, index) => blocks ?? fresh[pending.indexOf(index)]);
   };
 
-  const extractTextFromImages = async () => {
-    const extractedData: { text: string; alignment: 'left' | 'center' | 'right' }[][] = [];
-    const model = "gemini-3-flash-preview";
-    const total = files.length;
-
-    for (let i = 0; i < files.length; i++) {
-      const fileItem = files[i];
-      setProgressLabel(`${t.processingImage} ${i + 1} ${t.of} ${total}`);
-
-      const imagePart = await fileToGenerativePart(fileItem.file);
-      const response = await ai.models.generateContent({
-        model,
-        contents: [
-          {
-            role: "user",
-            parts: [
-              imagePart,
-              {
-                text: `Extract all text from this image accurately. For each block of text, identify its horizontal alignment (left, center, or right) as it appears in the image. 
-              Return the result as a JSON array of objects, where each object has "text" and "alignment" properties. 
-              Example: [{"text": "Hello World", "alignment": "center"}, {"text": "Footer text", "alignment": "right"}]
-              Return ONLY the JSON array.` }
-            ]
+  // With auto-extract on, phone pages are extracted one after another in
+  // the background, so the result is mostly ready by the time it's asked for.
+  const startEarlyExtraction = (item: FileItem) => {
+    const provider = ocrProvider;
+    const { signal } = earlyAbortRef.current;
+    prepareImage(item).then(image => {
+      if (earlyRef.current.get(image)?.provider === provider) return;
+      setImageStatus(prev => ({ ...prev, [item.id]: 'queued' }));
+      const run = earlyChainRef.current
+        .then(() => {
+          signal.throwIfAborted();
+          setImageStatus(prev => ({ ...prev, [item.id]: 'extracting' }));
+          return retryTransient(() => getOcrProvider(provider).extractBlocks(image, signal), signal);
+        })
+        .then(blocks => {
+          setImageStatus(prev => ({ ...prev, [item.id]: 'done' }));
+          return blocks;
+        })
+        .catch(error => {
+          if (signal.aborted) {
+            setImageStatus(prev => ({ ...prev, [item.id]: 'cancelled' }));
+            return null;
           }
-        ],
-        config: {
-          responseMimeType: "application/json"
-        }
-      });
+          console.error(`Early extraction failed for ${item.file.name}:`, error);
+          setImageStatus(prev => ({ ...prev, [item.id]: 'failed' }));
+          return null;
+        });
+      earlyRef.current.set(image, { provider, run });
+      earlyChainRef.current = run;
+    }).catch(error => {
+      console.error(`Could not prepare ${item.file.name}:`, error);
+      setImageStatus(prev => ({ ...prev, [item.id]: 'failed' }));
+    });
+  };
 
-      try {
-        const parsed = JSON.parse(response.text || "[]");
-        extractedData.push(parsed);
-      } catch (e) {
-        console.error("Failed to parse Gemini response", e);
-        extractedData.push([{ text: response.text || "", alignment: 'left' }]);
-      }
-    }
-    return extractedData;
+  React.useEffect(() => {
+    if (!autoExtractPhone || isConverting || ocrAvailability[ocrProvider] === false) return;
+    files.filter(item => item.source).forEach(startEarlyExtraction);
+  }, [files, autoExtractPhone, isConverting, ocrProvider, maxDimension]);
+
+  const runExtraction = async (items: FileItem[], extract: Extraction) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setImageStatus(Object.fromEntries(items.map(item => [item.id, 'queued' as ImageStatus])));
+    setPhase('extracting');
+
+    const images = await Promise.all(items.map(prepareImage));
+    const pages = await extract(images, {
+      signal: controller.signal,
+      onImageStatus: (index, status) => setImageStatus(prev => ({ ...prev, [items[index].id]: status })),
+    });
+
+    // Drop pages that were never extracted, so a cancelled run still yields
+    // everything that finished before the cancel. Documents embed the
+    // preprocessed copies: block boxes are measured on them, after EXIF
+    // rotation and deskew, so the PDF text layer lines up with the image.
+    const kept = images
+      .map((image, i) => ({ image, blocks: pages[i] }))
+      .filter((entry): entry is { image: File; blocks: TextBlock[] } => entry.blocks !== null);
+    return {
+      images: kept.map(entry => entry.image),
+      pages: kept.map(entry => entry.blocks),
+      cancelled: controller.signal.aborted,
+    };
   };
 
   const generateFileName = async (allText: string): Promise<string> => {
     try {
-      const model = "gemini-3-flash-preview";
-      const response = await ai.models.generateContent({
-        model,
-        contents: [{
-          role: "user",
-          parts: [{ text: `Based on the following text content, generate a very short filename (2-4 words, no extension, use hyphens between words, lowercase, no special characters). The filename should summarize the content.\n\nContent:\n${allText.slice(0, 500)}\n\nReturn ONLY the filename, nothing else.` }]
-        }]
-      });
-      const name = (response.text || 'document').trim().replace(/[^a-zA-Z0-9\-]/g, '-').replace(/-+/g, '-').replace(/^-|-$/g, '').toLowerCase();
+      const suggested = await getOcrProvider(ocrProvider).nameDocument(allText);
+      const name = (suggested || 'document').trim().replace(/[^a-zA-Z0-9\-]/g, '-').replace(/-+/g, '-').replace(/^-|-$/g, '').toLowerCase();
       return name || 'document';
     } catch {
       return 'document';
     }
   };
 
-  const convertToDocx = async () => {
-    const extractedData = await extractTextFromImages();
-    const children: Paragraph[] = [];
-    let allText = '';
-
-    extractedData.forEach((imageBlocks) => {
-      imageBlocks.forEach(block => {
-        const alignmentMap = {
-          left: AlignmentType.LEFT,
-          center: AlignmentType.CENTER,
-          right: AlignmentType.RIGHT
-        };
-
-        allText += block.text + ' ';
-        children.push(
-          new Paragraph({
-            alignment: alignmentMap[block.alignment] || AlignmentType.LEFT,
-            children: [new TextRun(block.text)],
-            spacing: { after: 200 }
-          })
-        );
-      });
-
-      // Add a page break after each image's text except the last one
-      children.push(new Paragraph({ children: [new TextRun("")] }));
-    });
-
-    const doc = new Document({
-      sections: [{
-        children: children,
-      }],
-    });
-
-    const blob = await Packer.toBlob(doc);
-    setProgressLabel(t.generatingFile);
-    const fileName = await generateFileName(allText);
+  const exportDocument = async (images: File[], pages: TextBlock[][], exportFormat: ExportFormat, celebrate: boolean) => {
+    setPhase('exporting');
+    const exporter = getExporter(exportFormat);
+    const blob = await exporter.export(pages, { images });
+    setPhase('naming');
+    const text = pagesToPlainText(pages);
+    const fileName = await generateFileName(text);
     setResultBlob(blob);
-    setResultFileName(`${fileName}.docx`);
+    setResultFileName(`${fileName}.${exporter.extension}`);
+    setResultText(text);
+    setPhase('done');
+    setIsSuccess(true);
+    if (celebrate) {
+      confetti({
+        particleCount: 100,
+        spread: 70,
+        origin: { y: 0.6 }
+      });
+    }
   };
 
-  const handleConvert = async () => {
-    if (files.length === 0) return;
+  const handleConvert = async (
+    items: FileItem[] = files,
+    extract: Extraction = extractTextFromImages,
+    exportFormat: ExportFormat = format,
+  ) => {
+    if (items.length === 0) return;
 
+    localStorage.setItem(PENDING_ACTION_KEY, JSON.stringify({ action: 'convert', format: exportFormat }));
+    setAction('convert');
     setIsConverting(true);
+    setIsSuccess(false);
     setResultBlob(null);
     setResultFileName('');
-    setProgress(0);
-    setProgressLabel('');
-
-    // Smooth progress: tick up ~10% every 800ms, cap at 90%
-    const progressInterval = setInterval(() => {
-      setProgress(prev => {
-        if (prev >= 90) return 90;
-        return prev + 10;
-      });
-    }, 800);
 
     try {
-      await convertToDocx();
-      clearInterval(progressInterval);
-      setProgress(100);
-      setProgressLabel('');
-      setIsSuccess(true);
-      confetti({
-        particleCount: 100,
-        spread: 70,
-        origin: { y: 0.6 }
-      });
+      const { images, pages, cancelled } = await runExtraction(items, extract);
+      if (pages.length === 0) return;
+      await exportDocument(images, pages, exportFormat, !cancelled);
     } catch (error) {
-      clearInterval(progressInterval);
       console.error('Conversion failed:', error);
       alert(t.conversionFailed);
     } finally {
+      localStorage.removeItem(PENDING_ACTION_KEY);
+      abortRef.current = null;
+      setIsCancelling(false);
       setIsConverting(false);
     }
   };
@@ -396,59 +763,130 @@ export default function App() {
     }
   };
 
-  const handleExtractText = async () => {
-    if (files.length === 0) return;
+  const handleExtractText = async (
+    items: FileItem[] = files,
+    extract: Extraction = extractTextFromImages,
+  ) => {
+    if (items.length === 0) return;
 
+    localStorage.setItem(PENDING_ACTION_KEY, JSON.stringify({ action: 'extract', format }));
+    setAction('extract');
     setIsExtracting(true);
     setIsConverting(true);
     setExtractedText('');
     setIsSuccess(false);
     setResultBlob(null);
-    setProgress(0);
-    setProgressLabel('');
-
-    const progressInterval = setInterval(() => {
-      setProgress(prev => {
-        if (prev >= 90) return 90;
-        return prev + 10;
-      });
-    }, 800);
 
     try {
-      const extractedData = await extractTextFromImages();
-      clearInterval(progressInterval);
-      const allText = extractedData
-        .map(blocks => blocks.map(b => b.text).join('\n'))
-        .join('\n\n');
-      setExtractedText(allText);
-      setProgress(100);
+      const { pages } = await runExtraction(items, extract);
+      setExtractedText(pagesToPlainText(pages));
+      setPhase('done');
     } catch (error) {
-      clearInterval(progressInterval);
       console.error('Extraction failed:', error);
       alert(t.conversionFailed);
     } finally {
+      localStorage.removeItem(PENDING_ACTION_KEY);
+      abortRef.current = null;
+      setIsCancelling(false);
       setIsConverting(false);
       setIsExtracting(false);
     }
   };
 
+  const handleReview = async (
+    items: FileItem[] = files,
+    extract: Extraction = extractTextFromImages,
+  ) => {
+    if (items.length === 0) return;
+
+    localStorage.setItem(PENDING_ACTION_KEY, JSON.stringify({ action: 'review', format }));
+    setAction('review');
+    setIsConverting(true);
+    setIsSuccess(false);
+    setResultBlob(null);
+    setResultFileName('');
+    setExtractedText('');
+
+    try {
+      const { images, pages } = await runExtraction(items, extract);
+      if (pages.length > 0) {
+        // Preview the images that were extracted so block outlines line up
+        setReview({ images, previews: images.map(image => window.URL.createObjectURL(image)), pages });
+      }
+    } catch (error) {
+      console.error('Extraction failed:', error);
+      alert(t.conversionFailed);
+    } finally {
+      localStorage.removeItem(PENDING_ACTION_KEY);
+      abortRef.current = null;
+      setIsCancelling(false);
+      setIsConverting(false);
+    }
+  };
+
+  // Builds the document from the edited blocks instead of running OCR again
+  const handleGenerateFromReview = async () => {
+    if (!review) return;
+
+    setAction('convert');
+    setIsConverting(true);
+    try {
+      const pages = review.pages.map(blocks => blocks.filter(block => block.text.trim()));
+      await exportDocument(review.images, pages, format, true);
+      closeReview();
+    } catch (error) {
+      console.error('Conversion failed:', error);
+      alert(t.conversionFailed);
+    } finally {
+      setIsConverting(false);
+    }
+  };
+
+  const closeReview = () => {
+    review?.previews.forEach(preview => window.URL.revokeObjectURL(preview));
+    setReview(null);
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    earlyAbortRef.current.abort();
+    earlyAbortRef.current = new AbortController();
+    setIsCancelling(true);
+  };
+
+  // A new result can be sent again
+  React.useEffect(() => setPhoneSend({}), [resultBlob, extractedText]);
+
+  const connectedPhones = phoneSession.devices.filter(device => device.status !== 'offline');
+
+  const handleSendToPhone = async (deviceId: string, files: File[]) => {
+    setPhoneSend(prev => ({ ...prev, [deviceId]: 'sending' }));
+    try {
+      await phoneSession.sendFiles(deviceId, files);
+      setPhoneSend(prev => ({ ...prev, [deviceId]: 'sent' }));
+    } catch (error) {
+      console.error('Sending to phone failed:', error);
+      setPhoneSend(prev => ({ ...prev, [deviceId]: 'failed' }));
+    }
+  };
+
+  const textFile = (text: string, name: string) => new File([text], name, { type: 'text/plain' });
+
+  const sendResultToPhone = (deviceId: string) => {
+    if (!resultBlob) return;
+    const baseName = resultFileName.replace(/\.[^.]+$/, '');
+    void handleSendToPhone(deviceId, [
+      new File([resultBlob], resultFileName, { type: resultBlob.type }),
+      textFile(resultText, `${baseName}.txt`),
+    ]);
+  };
+
   const handleCopy = async () => {
     await navigator.clipboard.writeText(extractedText);
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
   };
 
-  const handlePhoneFilesReceived = useCallback((receivedFiles: File[]) => {
-    const newFiles = receivedFiles.map(file => ({
-      id: Math.random().toString(36).substring(7),
-      file,
-      preview: window.URL.createObjectURL(file)
-    }));
-    setFiles(prev => [...prev, ...newFiles]);
-    setIsSuccess(false);
-    setResultBlob(null);
-    setResultFileName('');
-  }, []);
 
   return (
     <div className="min-h-screen bg-[#F5F5F5] text-[#1A1A1A] font-sans selection:bg-black selection:text-white">
@@ -473,13 +911,13 @@ export default function App() {
                 animate={{ opacity: 1, y: 0 }}
                 exit={{ opacity: 0, y: -4 }}
                 transition={{ duration: 0.15 }}
-                className="absolute right-0 top-full mt-1 z-50 bg-white rounded-xl border border-black/10 shadow-lg overflow-hidden min-w-[160px]"
+                className="absolute end-0 top-full mt-1 z-50 bg-white rounded-xl border border-black/10 shadow-lg overflow-hidden min-w-[160px]"
               >
                 {LANGUAGES.map((l) => (
                   <button
                     key={l.code}
-                    onClick={() => { setLang(l.code); setLangMenuOpen(false); }}
-                    className={`w-full text-left px-4 py-2.5 text-sm flex items-center gap-2.5 transition-colors
+                    onClick={() => { setLang(l.code); saveLang(l.code); setLangMenuOpen(false); }}
+                    className={`w-full text-start px-4 py-2.5 text-sm flex items-center gap-2.5 transition-colors
                       ${l.code === lang ? 'bg-black/5 font-semibold' : 'hover:bg-black/[0.03]'}`}
                   >
                     <span>{l.flag}</span>
@@ -519,163 +957,390 @@ export default function App() {
         </header>
 
         <main className="space-y-8">
-          {/* Upload Area */}
-          <motion.div
-            initial={{ opacity: 0, scale: 0.95 }}
-            animate={{ opacity: 1, scale: 1 }}
-            transition={{ delay: 0.3 }}
-            onDragOver={handleDragOver}
-            onDrop={handleDrop}
-            onClick={() => fileInputRef.current?.click()}
-            className={`
-              relative border-2 border-dashed rounded-3xl p-12 text-center cursor-pointer transition-all duration-300
-              ${files.length > 0 ? 'bg-white border-black/10' : 'bg-white/50 border-black/10 hover:border-black/30 hover:bg-white'}
-            `}
-          >
-            <input
-              type="file"
-              ref={fileInputRef}
-              onChange={onFileSelect}
-              multiple
-              accept="image/jpeg,image/png"
-              className="hidden"
-            />
+          {!review && (
+            <>
+            {/* Upload Area */}
+            <motion.div
+              initial={{ opacity: 0, scale: 0.95 }}
+              animate={{ opacity: 1, scale: 1 }}
+              transition={{ delay: 0.3 }}
+              onDragOver={handleDragOver}
+              onDrop={handleDrop}
+              onClick={() => fileInputRef.current?.click()}
+              className={`
+                relative border-2 border-dashed rounded-3xl p-12 text-center cursor-pointer transition-all duration-300
+                ${files.length > 0 ? 'bg-white border-black/10' : 'bg-white/50 border-black/10 hover:border-black/30 hover:bg-white'}
+              `}
+            >
+              <input
+                type="file"
+                ref={fileInputRef}
+                onChange={onFileSelect}
+                multiple
+                accept={ACCEPTED_INPUTS}
+                className="hidden"
+              />
 
-            <div className="flex flex-col items-center">
-              <div className="w-12 h-12 bg-black/5 rounded-full flex items-center justify-center mb-4">
-                <Upload className="w-6 h-6 text-black/60" />
+              <div className="flex flex-col items-center">
+                <div className="w-12 h-12 bg-black/5 rounded-full flex items-center justify-center mb-4">
+                  <Upload className="w-6 h-6 text-black/60" />
+                </div>
+                <p className="text-lg font-medium mb-1">
+                  {files.length > 0 ? t.addMore : t.dropImages}
+                </p>
+                <p className="text-sm text-[#999]">
+                  {t.fileHint}
+                </p>
+                {importingCount > 0 && (
+                  <p className="mt-2 text-sm text-[#666] inline-flex items-center gap-2">
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                    {t.importing}
+                  </p>
+                )}
+
+                {/* Upload from Phone button */}
+                <button
+                  onClick={(e) => { e.stopPropagation(); setShowPhoneModal(true); }}
+                  className="mt-4 inline-flex items-center gap-2 px-5 py-2.5 rounded-xl bg-black/5 hover:bg-black/10 transition-all text-sm font-medium text-[#555] hover:text-black"
+                >
+                  <Smartphone className="w-4 h-4" />
+                  {t.uploadFromPhone}
+                  {connectedPhones.length > 0 && (
+                    <span className="inline-flex items-center gap-1.5 text-xs text-emerald-700">
+                      <span className="w-2 h-2 rounded-full bg-emerald-500" />
+                      {plural(lang, t.phonesLinked, connectedPhones.length)}
+                    </span>
+                  )}
+                </button>
               </div>
-              <p className="text-lg font-medium mb-1">
-                {files.length > 0 ? t.addMore : t.dropImages}
-              </p>
-              <p className="text-sm text-[#999]">
-                {t.fileHint}
-              </p>
-
-              {/* Upload from Phone button */}
-              <button
-                onClick={(e) => { e.stopPropagation(); setShowPhoneModal(true); }}
-                className="mt-4 inline-flex items-center gap-2 px-5 py-2.5 rounded-xl bg-black/5 hover:bg-black/10 transition-all text-sm font-medium text-[#555] hover:text-black"
-              >
-                <Smartphone className="w-4 h-4" />
-                {t.uploadFromPhone}
-              </button>
-            </div>
-          </motion.div>
+            </motion.div>
 
-          {/* File List */}
-          <AnimatePresence>
-            {files.length > 0 && (
-              <motion.div
-                initial={{ opacity: 0, y: 20 }}
-                animate={{ opacity: 1, y: 0 }}
-                exit={{ opacity: 0, y: 20 }}
-                className="bg-white rounded-3xl shadow-sm border border-black/5 overflow-hidden"
-              >
-                <div className="p-6 border-bottom border-black/5 bg-[#FAFAFA] flex items-center justify-between">
-                  <h3 className="font-medium flex items-center gap-2">
-                    <ImageIcon className="w-4 h-4" />
-                    {t.selectedImages} ({files.length})
-                  </h3>
-                  <button
-                    onClick={clearFiles}
-                    className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-red-50 text-red-500 hover:bg-red-100 hover:text-red-600 transition-colors text-xs font-medium"
-                  >
-                    <X className="w-3.5 h-3.5" />
-                    {t.clearAll}
-                  </button>
-                </div>
-                <div className="max-h-[400px] overflow-y-auto p-4 grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
-                  {files.map((file) => (
-                    <motion.div
-                      key={file.id}
-                      layout
-                      initial={{ opacity: 0, scale: 0.8 }}
-                      animate={{ opacity: 1, scale: 1 }}
-                      exit={{ opacity: 0, scale: 0.8 }}
-                      className="group relative aspect-square rounded-2xl overflow-hidden bg-[#F5F5F5] border border-black/5"
+            {/* Rejected Files */}
+            <AnimatePresence>
+              {rejections.length > 0 && (
+                <motion.div
+                  initial={{ opacity: 0, y: 10 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: -10 }}
+                  className="bg-red-50 rounded-2xl border border-red-100 p-4"
+                >
+                  <div className="flex items-start justify-between gap-3 mb-2">
+                    <p className="text-sm font-medium text-red-700 flex items-center gap-2">
+                      <AlertCircle className="w-4 h-4" />
+                      {t.filesRejected}
+                    </p>
+                    <button
+                      onClick={() => setRejections([])}
+                      aria-label={t.close}
+                      className="w-6 h-6 rounded-full hover:bg-red-100 flex items-center justify-center text-red-500 transition-colors flex-shrink-0"
                     >
-                      <img
-                        src={file.preview}
-                        alt="Preview"
-                        className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-110"
-                      />
-                      <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                  <ul className="space-y-1 max-h-40 overflow-y-auto">
+                    {rejections.map((rejection, i) => (
+                      <li key={i} className="text-sm flex gap-2 min-w-0">
+                        <span className="font-medium text-[#333] truncate">{rejection.name}</span>
+                        <span className="text-red-600 flex-shrink-0">{rejectionLabels[rejection.reason]}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </motion.div>
+              )}
+            </AnimatePresence>
+
+            {/* File List */}
+            <AnimatePresence>
+              {files.length > 0 && (
+                <motion.div
+                  initial={{ opacity: 0, y: 20 }}
+                  animate={{ opacity: 1, y: 0 }}
+                  exit={{ opacity: 0, y: 20 }}
+                  className="bg-white rounded-3xl shadow-sm border border-black/5 overflow-hidden"
+                >
+                  <div className="p-6 border-bottom border-black/5 bg-[#FAFAFA] flex items-center justify-between">
+                    <h3 className="font-medium flex items-center gap-2">
+                      <ImageIcon className="w-4 h-4" />
+                      {t.selectedImages} ({files.length})
+                    </h3>
+                    <div className="flex items-center gap-2">
+                      <button
+                        onClick={() => sortFiles('name')}
+                        disabled={isConverting || isSorting}
+                        title={t.sortByName}
+                        className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-black/5 hover:bg-black/10 disabled:opacity-50 transition-colors text-xs font-medium"
+                      >
+                        <ArrowDownAZ className="w-3.5 h-3.5" />
+                        <span className="hidden sm:inline">{t.sortByName}</span>
+                      </button>
+                      <button
+                        onClick={() => sortFiles('date')}
+                        disabled={isConverting || isSorting}
+                        title={t.sortByDate}
+                        className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-black/5 hover:bg-black/10 disabled:opacity-50 transition-colors text-xs font-medium"
+                      >
+                        <CalendarClock className="w-3.5 h-3.5" />
+                        <span className="hidden sm:inline">{t.sortByDate}</span>
+                      </button>
+                      {files.some(f => f.source) && (
                         <button
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            removeFile(file.id);
+                          onClick={() => sortFiles('device')}
+                          disabled={isConverting || isSorting}
+                          title={t.sortByDevice}
+                          className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-black/5 hover:bg-black/10 disabled:opacity-50 transition-colors text-xs font-medium"
+                        >
+                          <Smartphone className="w-3.5 h-3.5" />
+                          <span className="hidden sm:inline">{t.sortByDevice}</span>
+                        </button>
+                      )}
+                      <button
+                        onClick={clearFiles}
+                        className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-red-50 text-red-500 hover:bg-red-100 hover:text-red-600 transition-colors text-xs font-medium"
+                      >
+                        <X className="w-3.5 h-3.5" />
+                        {t.clearAll}
+                      </button>
+                    </div>
+                  </div>
+                  <div ref={gridRef} className="max-h-[400px] overflow-y-auto p-4 grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
+                    {files.map((file, index) => (
+                      <motion.div
+                        key={file.id}
+                        data-file-id={file.id}
+                        layout
+                        initial={{ opacity: 0, scale: 0.8 }}
+                        animate={{ opacity: 1, scale: 1 }}
+                        exit={{ opacity: 0, scale: 0.8 }}
+                        className={`group relative aspect-square rounded-2xl overflow-hidden bg-[#F5F5F5] border border-black/5
+                          ${draggingId === file.id ? 'ring-2 ring-black z-20 shadow-xl' : ''}`}
+                      >
+                        <button
+                          onPointerDown={(e) => {
+                            e.currentTarget.setPointerCapture(e.pointerId);
+                            setDraggingId(file.id);
                           }}
-                          className="w-8 h-8 bg-white rounded-full flex items-center justify-center text-black hover:bg-red-500 hover:text-white transition-colors"
+                          onPointerMove={handleGripPointerMove}
+                          onPointerUp={() => setDraggingId(null)}
+                          onPointerCancel={() => setDraggingId(null)}
+                          onKeyDown={handleGripKeyDown(index)}
+                          onClick={(e) => e.stopPropagation()}
+                          disabled={isConverting}
+                          title={t.dragToReorder}
+                          aria-label={formatMessage(t.movePage, { page: index + 1 })}
+                          className="absolute top-2 start-2 z-10 h-7 ps-1 pe-2 rounded-lg bg-white/90 shadow-sm flex items-center gap-0.5 text-xs font-semibold tabular-nums text-[#333] touch-none cursor-grab active:cursor-grabbing disabled:cursor-default focus:outline-none focus:ring-2 focus:ring-black"
                         >
-                          <X className="w-4 h-4" />
+                          <GripVertical className="w-3.5 h-3.5 text-[#999]" />
+                          {index + 1}
                         </button>
-                      </div>
-                    </motion.div>
+                        <img
+                          src={file.processed && !showOriginal[file.id] ? file.processed.preview : file.preview}
+                          alt="Preview"
+                          className="w-full h-full object-cover transition-transform duration-500 group-hover:scale-110"
+                        />
+                        {file.processed && file.processed.file !== file.file && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setShowOriginal(prev => ({ ...prev, [file.id]: !prev[file.id] }));
+                            }}
+                            className="absolute bottom-2 start-2 z-10 px-2 py-1 rounded-lg bg-white/90 shadow-sm text-[10px] font-semibold uppercase tracking-wide text-[#333] hover:bg-white transition-colors"
+                          >
+                            {showOriginal[file.id] ? t.showBefore : t.showAfter}
+                          </button>
+                        )}
+                        {file.source && (
+                          <div
+                            title={`${t.fromPhone}: ${file.source.device}`}
+                            aria-label={`${t.fromPhone}: ${file.source.device}`}
+                            className="absolute bottom-2 end-2 z-10 max-w-[45%] h-6 px-1.5 rounded-lg bg-white/90 shadow-sm flex items-center gap-1 text-[10px] font-semibold text-[#333]"
+                          >
+                            <span className={`w-2 h-2 rounded-full flex-shrink-0 ${deviceColor(file.source.device)}`} />
+                            <span className="truncate">{file.source.device}</span>
+                          </div>
+                        )}
+                        {imageStatus[file.id] && (
+                          <StatusBadge status={imageStatus[file.id]} label={statusLabels[imageStatus[file.id]]} />
+                        )}
+                        {!isConverting && <div className="absolute inset-0 bg-black/40 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity flex items-center justify-center gap-2">
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setEditingId(file.id);
+                            }}
+                            title={t.cropTitle}
+                            aria-label={t.cropTitle}
+                            className="w-8 h-8 bg-white rounded-full flex items-center justify-center text-black hover:bg-black hover:text-white transition-colors"
+                          >
+                            <Crop className="w-4 h-4" />
+                          </button>
+                          {file.original && (
+                            <button
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                undoEdit(file.id);
+                              }}
+                              title={t.undoEdit}
+                              aria-label={t.undoEdit}
+                              className="w-8 h-8 bg-white rounded-full flex items-center justify-center text-black hover:bg-black hover:text-white transition-colors"
+                            >
+                              <Undo2 className="w-4 h-4" />
+                            </button>
+                          )}
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              removeFile(file.id);
+                            }}
+                            className="w-8 h-8 bg-white rounded-full flex items-center justify-center text-black hover:bg-red-500 hover:text-white transition-colors"
+                          >
+                            <X className="w-4 h-4" />
+                          </button>
+                        </div>}
+                      </motion.div>
+                    ))}
+                  </div>
+                </motion.div>
+              )}
+            </AnimatePresence>
+
+            {/* Controls */}
+            {files.length > 0 && (
+              <motion.div
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                className="flex flex-col sm:flex-row sm:flex-wrap justify-center gap-3"
+              >
+                <select
+                  value={format}
+                  onChange={(e) => { setFormat(e.target.value as ExportFormat); setIsSuccess(false); }}
+                  disabled={isConverting}
+                  aria-label={t.outputFormat}
+                  className="w-full sm:w-auto px-4 py-4 rounded-2xl font-medium bg-white border-2 border-black/10 hover:border-black/30 focus:outline-none focus:border-black/40 transition-all text-sm"
+                >
+                  {listExporters().map(exporter => (
+                    <option key={exporter.id} value={exporter.id}>
+                      {t[exporter.labelKey]}
+                    </option>
                   ))}
-                </div>
+                </select>
+
+                <select
+                  value={maxDimension}
+                  onChange={(e) => setMaxDimension(Number(e.target.value))}
+                  disabled={isConverting}
+                  aria-label={t.imageSize}
+                  className="w-full sm:w-auto px-4 py-4 rounded-2xl font-medium bg-white border-2 border-black/10 hover:border-black/30 focus:outline-none focus:border-black/40 transition-all text-sm"
+                >
+                  {MAX_DIMENSION_CHOICES.map(size => (
+                    <option key={size} value={size}>
+                      {size > 0 ? formatMessage(t.imageSizeMax, { size }) : t.imageSizeOriginal}
+                    </option>
+                  ))}
+                </select>
+
+                <select
+                  value={ocrProvider}
+                  onChange={(e) => setOcrProvider(e.target.value as OcrProviderId)}
+                  disabled={isConverting}
+                  aria-label={t.ocrProvider}
+                  className="w-full sm:w-auto px-4 py-4 rounded-2xl font-medium bg-white border-2 border-black/10 hover:border-black/30 focus:outline-none focus:border-black/40 transition-all text-sm"
+                >
+                  {listOcrProviders().map(provider => (
+                    <option key={provider.id} value={provider.id} disabled={ocrAvailability[provider.id] === false}>
+                      {t[provider.labelKey]}
+                    </option>
+                  ))}
+                </select>
+
+                <button
+                  onClick={() => handleConvert()}
+                  disabled={isConverting}
+                  className={`
+                    w-full sm:w-auto px-10 py-4 rounded-2xl font-semibold flex items-center justify-center gap-3 transition-all
+                    ${isConverting
+                      ? 'bg-[#E5E5E5] text-[#999] cursor-not-allowed'
+                      : 'bg-black text-white hover:scale-[1.02] active:scale-[0.98] shadow-xl hover:shadow-2xl'}
+                  `}
+                >
+                  {isConverting && action === 'convert' ? (
+                    <>
+                      <Loader2 className="w-5 h-5 animate-spin" />
+                      {t.converting}
+                    </>
+                  ) : isSuccess ? (
+                    <>
+                      <CheckCircle2 className="w-5 h-5" />
+                      {t.success}
+                    </>
+                  ) : (
+                    <>
+                      <FileText className="w-5 h-5" />
+                      {formatMessage(t.convertBtn, { format: t[getExporter(format).labelKey] })}
+                    </>
+                  )}
+                </button>
+
+                <button
+                  onClick={() => handleExtractText()}
+                  disabled={isConverting}
+                  className={`
+                    w-full sm:w-auto px-10 py-4 rounded-2xl font-semibold flex items-center justify-center gap-3 transition-all
+                    ${isConverting
+                      ? 'bg-[#E5E5E5] text-[#999] cursor-not-allowed'
+                      : 'bg-white text-black border-2 border-black/10 hover:border-black/30 hover:scale-[1.02] active:scale-[0.98] shadow-sm hover:shadow-lg'}
+                  `}
+                >
+                  {isExtracting ? (
+                    <>
+                      <Loader2 className="w-5 h-5 animate-spin" />
+                      {t.extracting}
+                    </>
+                  ) : (
+                    <>
+                      <Type className="w-5 h-5" />
+                      {t.extractTextBtn}
+                    </>
+                  )}
+                </button>
+
+                <button
+                  onClick={() => handleReview()}
+                  disabled={isConverting}
+                  className={`
+                    w-full sm:w-auto px-10 py-4 rounded-2xl font-semibold flex items-center justify-center gap-3 transition-all
+                    ${isConverting
+                      ? 'bg-[#E5E5E5] text-[#999] cursor-not-allowed'
+                      : 'bg-white text-black border-2 border-black/10 hover:border-black/30 hover:scale-[1.02] active:scale-[0.98] shadow-sm hover:shadow-lg'}
+                  `}
+                >
+                  {isConverting && action === 'review' ? (
+                    <>
+                      <Loader2 className="w-5 h-5 animate-spin" />
+                      {t.extracting}
+                    </>
+                  ) : (
+                    <>
+                      <PencilLine className="w-5 h-5" />
+                      {t.reviewBtn}
+                    </>
+                  )}
+                </button>
               </motion.div>
             )}
-          </AnimatePresence>
+            </>
+          )}
 
-          {/* Controls */}
-          {files.length > 0 && (
-            <motion.div
-              initial={{ opacity: 0, y: 20 }}
-              animate={{ opacity: 1, y: 0 }}
-              className="flex flex-col sm:flex-row justify-center gap-3"
-            >
-              <button
-                onClick={handleConvert}
-                disabled={isConverting}
-                className={`
-                  w-full sm:w-auto px-10 py-4 rounded-2xl font-semibold flex items-center justify-center gap-3 transition-all
-                  ${isConverting
-                    ? 'bg-[#E5E5E5] text-[#999] cursor-not-allowed'
-                    : 'bg-black text-white hover:scale-[1.02] active:scale-[0.98] shadow-xl hover:shadow-2xl'}
-                `}
-              >
-                {isConverting && !isExtracting ? (
-                  <>
-                    <Loader2 className="w-5 h-5 animate-spin" />
-                    {t.converting}
-                  </>
-                ) : isSuccess ? (
-                  <>
-                    <CheckCircle2 className="w-5 h-5" />
-                    {t.success}
-                  </>
-                ) : (
-                  <>
-                    <FileText className="w-5 h-5" />
-                    {t.convertBtn}
-                  </>
-                )}
-              </button>
-
-              <button
-                onClick={handleExtractText}
-                disabled={isConverting}
-                className={`
-                  w-full sm:w-auto px-10 py-4 rounded-2xl font-semibold flex items-center justify-center gap-3 transition-all
-                  ${isConverting
-                    ? 'bg-[#E5E5E5] text-[#999] cursor-not-allowed'
-                    : 'bg-white text-black border-2 border-black/10 hover:border-black/30 hover:scale-[1.02] active:scale-[0.98] shadow-sm hover:shadow-lg'}
-                `}
-              >
-                {isExtracting ? (
-                  <>
-                    <Loader2 className="w-5 h-5 animate-spin" />
-                    {t.extracting}
-                  </>
-                ) : (
-                  <>
-                    <Type className="w-5 h-5" />
-                    {t.extractTextBtn}
-                  </>
-                )}
-              </button>
-            </motion.div>
+          {/* Review & Edit */}
+          {review && !isConverting && (
+            <ReviewEditor
+              previews={review.previews}
+              pages={review.pages}
+              onChange={pages => setReview(current => current && { ...current, pages })}
+              onGenerate={handleGenerateFromReview}
+              onDiscard={closeReview}
+              generateLabel={formatMessage(t.convertBtn, { format: t[getExporter(format).labelKey] })}
+              t={t}
+            />
           )}
 
           {/* Progress Bar */}
@@ -689,7 +1354,17 @@ export default function App() {
               >
                 <div className="flex items-center justify-between mb-2">
                   <p className="text-sm font-medium text-[#333]">{progressLabel}</p>
-                  <p className="text-sm font-semibold text-black tabular-nums">{progress}%</p>
+                  <div className="flex items-center gap-3">
+                    <p className="text-sm font-semibold text-black tabular-nums">{progress}%</p>
+                    <button
+                      onClick={handleCancel}
+                      disabled={isCancelling || phase !== 'extracting'}
+                      className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-red-50 text-red-500 hover:bg-red-100 hover:text-red-600 disabled:opacity-50 disabled:cursor-not-allowed transition-colors text-xs font-medium"
+                    >
+                      <X className="w-3.5 h-3.5" />
+                      {t.cancel}
+                    </button>
+                  </div>
                 </div>
                 <div className="w-full h-2.5 bg-black/5 rounded-full overflow-hidden">
                   <motion.div
@@ -713,9 +1388,12 @@ export default function App() {
                 className="bg-white rounded-3xl shadow-sm border border-black/5 p-6"
               >
                 <div className="flex items-center gap-4">
-                  {/* DOCX Icon */}
-                  <div className="w-14 h-14 bg-blue-50 rounded-2xl flex items-center justify-center flex-shrink-0 border border-blue-100">
+                  {/* Format Icon */}
+                  <div className="relative w-14 h-14 bg-blue-50 rounded-2xl flex items-center justify-center flex-shrink-0 border border-blue-100">
                     <FileText className="w-7 h-7 text-blue-600" />
+                    <span className="absolute -bottom-1.5 px-1.5 rounded-md bg-blue-600 text-white text-[9px] font-bold uppercase tracking-wide">
+                      {resultFileName.split('.').pop()}
+                    </span>
                   </div>
 
                   {/* File Info */}
@@ -727,6 +1405,10 @@ export default function App() {
                     </p>
                   </div>
 
+                  {connectedPhones.length > 0 && (
+                    <PhoneSendButtons devices={connectedPhones} states={phoneSend} onSend={sendResultToPhone} t={t} />
+                  )}
+
                   {/* Download Button */}
                   <button
                     onClick={handleDownload}
@@ -754,25 +1436,36 @@ export default function App() {
                     <Type className="w-4 h-4" />
                     {t.extractTextBtn}
                   </h3>
-                  <button
-                    onClick={handleCopy}
-                    className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-black/5 hover:bg-black/10 transition-colors text-xs font-medium"
-                  >
-                    {copied ? (
-                      <>
-                        <ClipboardCheck className="w-3.5 h-3.5 text-emerald-600" />
-                        <span className="text-emerald-600">{t.copiedText}</span>
-                      </>
-                    ) : (
-                      <>
-                        <Copy className="w-3.5 h-3.5" />
-                        {t.copyText}
-                      </>
+                  <div className="flex items-center gap-2">
+                    {connectedPhones.length > 0 && (
+                      <PhoneSendButtons
+                        devices={connectedPhones}
+                        states={phoneSend}
+                        onSend={(deviceId) => void handleSendToPhone(deviceId, [textFile(extractedText, 'extracted-text.txt')])}
+                        t={t}
+                      />
                     )}
-                  </button>
+                    <button
+                      onClick={handleCopy}
+                      className="inline-flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-black/5 hover:bg-black/10 transition-colors text-xs font-medium"
+                    >
+                      {copied ? (
+                        <>
+                          <ClipboardCheck className="w-3.5 h-3.5 text-emerald-600" />
+                          <span className="text-emerald-600">{t.copiedText}</span>
+                        </>
+                      ) : (
+                        <>
+                          <Copy className="w-3.5 h-3.5" />
+                          {t.copyText}
+                        </>
+                      )}
+                    </button>
+                  </div>
                 </div>
                 <textarea
                   readOnly
+                  dir="auto"
                   value={extractedText}
                   className="w-full p-5 text-sm leading-relaxed text-[#333] bg-white resize-none focus:outline-none min-h-[200px] max-h-[500px] font-mono"
                   rows={Math.min(extractedText.split('\n').length + 2, 20)}
@@ -788,12 +1481,40 @@ export default function App() {
         </footer>
       </div>
 
+      {/* PDF Page Selection */}
+      <AnimatePresence>
+        {pdfQueue.length > 0 && (
+          <PdfPagesModal
+            file={pdfQueue[0].file}
+            onImport={(images, pages) => handlePdfImport(pdfQueue[0], images, pages)}
+            onSkip={() => setPdfQueue(prev => prev.slice(1))}
+            lang={lang}
+            t={t}
+          />
+        )}
+      </AnimatePresence>
+
+      {/* Crop Editor */}
+      <AnimatePresence>
+        {editingFile && (
+          <CropEditor
+            file={editingFile.file}
+            onSave={(file) => handleCropSave(editingFile.id, file)}
+            onClose={() => setEditingId(null)}
+            t={t}
+          />
+        )}
+      </AnimatePresence>
+
       {/* Phone Upload Modal */}
       <AnimatePresence>
         {showPhoneModal && (
           <PhoneUploadModal
+            session={phoneSession}
+            autoExtract={autoExtractPhone}
+            onAutoExtractChange={setAutoExtractPhone}
             onClose={() => setShowPhoneModal(false)}
-            onFilesReceived={handlePhoneFilesReceived}
+            lang={lang}
             t={t}
           />
         )}
@@ -0,0 +1,264 @@
+/**
+ * CameraCapture — full-screen scanner for the phone page. Shows the rear
+ * camera with the detected page outline, takes a shot by itself once the
+ * page has been held steady, and collects several shots before handing
+ * them back as one batch.
+ */
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { X, Camera, Check, RotateCcw, Zap, ZapOff, Loader2 } from 'lucide-react';
+import { formatMessage } from './i18n';
+import type { Messages, TextKey } from './i18n';
+import { detectQuad } from './perspective';
+import type { Quad } from './perspective';
+
+interface CameraCaptureProps {
+    onDone: (files: File[]) => void;
+    onClose: () => void;
+    t: Messages;
+}
+
+interface Shot {
+    file: File;
+    url: string;
+}
+
+type CameraError = 'unsupported' | 'denied' | 'failed';
+
+// Longest side of the frames used for page detection
+const ANALYSE_SIDE = 320;
+const ANALYSE_INTERVAL_MS = 200;
+// A corner moving less than this (share of the frame) between checks counts as still
+const STEADY_MOVEMENT = 0.015;
+// Consecutive still checks before auto-capture, about 1.2 s
+const STEADY_CHECKS = 6;
+// After a shot, the page must move this far (or leave the frame) before the next one
+const REARM_MOVEMENT = 0.08;
+const JPEG_QUALITY = 0.92;
+
+const cornerDistance = (a: Quad, b: Quad) =>
+    Math.max(...a.map((p, i) => Math.hypot(p.x - b[i].x, p.y - b[i].y)));
+
+const CAMERA_ERROR_KEYS: Record<CameraError, TextKey> = {
+    unsupported: 'cameraUnsupported',
+    denied: 'cameraDenied',
+    failed: 'cameraFailed',
+};
+
+export default function CameraCapture({ onDone, onClose, t }: CameraCaptureProps) {
+    const [error, setError] = useState<CameraError | null>(null);
+    const [isReady, setIsReady] = useState(false);
+    const [shots, setShots] = useState<Shot[]>([]);
+    const [quad, setQuad] = useState<Quad | null>(null);
+    const [steadiness, setSteadiness] = useState(0);
+    const [autoCapture, setAutoCapture] = useState(true);
+    const [flash, setFlash] = useState(false);
+    const videoRef = useRef<HTMLVideoElement>(null);
+    const shotsRef = useRef<Shot[]>([]);
+    shotsRef.current = shots;
+    const capturingRef = useRef(false);
+    // Auto-capture state between analysis ticks
+    const lastQuadRef = useRef<Quad | null>(null);
+    const steadyRef = useRef(0);
+    const capturedQuadRef = useRef<Quad | null>(null);
+
+    useEffect(() => {
+        if (!navigator.mediaDevices?.getUserMedia) {
+            setError('unsupported');
+            return;
+        }
+        let stream: MediaStream | null = null;
+        let cancelled = false;
+        navigator.mediaDevices.getUserMedia({
+            audio: false,
+            video: { facingMode: { ideal: 'environment' }, width: { ideal: 3840 }, height: { ideal: 2160 } },
+        })
+            .then(result => {
+                stream = result;
+                if (cancelled) return result.getTracks().forEach(track => track.stop());
+                const video = videoRef.current!;
+                video.srcObject = result;
+                return video.play().then(() => setIsReady(true));
+            })
+            .catch(err => {
+                console.error('Camera failed:', err);
+                if (!cancelled) setError(err?.name === 'NotAllowedError' ? 'denied' : 'failed');
+            });
+        return () => {
+            cancelled = true;
+            stream?.getTracks().forEach(track => track.stop());
+        };
+    }, []);
+
+    // Revoke thumbnails on unmount; the parent makes its own previews
+    useEffect(() => () => shotsRef.current.forEach(shot => URL.revokeObjectURL(shot.url)), []);
+
+    const capture = useCallback(async () => {
+        const video = videoRef.current;
+        if (!video || !video.videoWidth || capturingRef.current) return;
+        capturingRef.current = true;
+        setFlash(true);
+        setTimeout(() => setFlash(false), 150);
+        try {
+            const canvas = document.createElement('canvas');
+            canvas.width = video.videoWidth;
+            canvas.height = video.videoHeight;
+            canvas.getContext('2d')!.drawImage(video, 0, 0);
+            const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', JPEG_QUALITY));
+            if (!blob) throw new Error('Could not encode image');
+            const taken = Date.now();
+            const number = String(shotsRef.current.length + 1).padStart(2, '0');
+            const file = new File([blob], `scan-${number}.jpg`, { type: 'image/jpeg', lastModified: taken });
+            setShots(prev => [...prev, { file, url: URL.createObjectURL(file) }]);
+            capturedQuadRef.current = lastQuadRef.current;
+            steadyRef.current = 0;
+        } catch (err) {
+            console.error('Capture failed:', err);
+        } finally {
+            capturingRef.current = false;
+        }
+    }, []);
+
+    // Find the page a few times a second and fire when it has been held still
+    useEffect(() => {
+        if (!isReady) return;
+        const frame = document.createElement('canvas');
+        const timer = setInterval(() => {
+            const video = videoRef.current;
+            if (!video || !video.videoWidth) return;
+            const scale = ANALYSE_SIDE / Math.max(video.videoWidth, video.videoHeight);
+            frame.width = Math.round(video.videoWidth * scale);
+            frame.height = Math.round(video.videoHeight * scale);
+            frame.getContext('2d')!.drawImage(video, 0, 0, frame.width, frame.height);
+
+            const found = detectQuad(frame);
+            const previous = lastQuadRef.current;
+            lastQuadRef.current = found;
+            setQuad(found);
+
+            // Losing the page, or moving well away from the last shot, allows the next one
+            const captured = capturedQuadRef.current;
+            if (captured && (!found || cornerDistance(found, captured) > REARM_MOVEMENT)) {
+                capturedQuadRef.current = null;
+            }
+
+            const still = found && previous && cornerDistance(found, previous) < STEADY_MOVEMENT;
+            steadyRef.current = still && !capturedQuadRef.current ? steadyRef.current + 1 : 0;
+            setSteadiness(Math.min(steadyRef.current / STEADY_CHECKS, 1));
+            if (autoCapture && steadyRef.current >= STEADY_CHECKS) void capture();
+        }, ANALYSE_INTERVAL_MS);
+        return () => clearInterval(timer);
+    }, [isReady, autoCapture, capture]);
+
+    const removeShot = (index: number) => {
+        URL.revokeObjectURL(shots[index].url);
+        setShots(prev => prev.filter((_, i) => i !== index));
+    };
+
+    // Drop the last shot and allow the same page to be taken again
+    const retake = () => {
+        if (shots.length === 0) return;
+        removeShot(shots.length - 1);
+        capturedQuadRef.current = null;
+        steadyRef.current = 0;
+    };
+
+    const points = quad?.map(p => `${p.x * 100},${p.y * 100}`).join(' ');
+
+    return (
+        <div className="fixed inset-0 z-50 bg-black text-white flex flex-col">
+            {/* Top bar */}
+            <div className="flex items-center justify-between p-4">
+                <button
+                    onClick={onClose}
+                    aria-label={t.closeCamera}
+                    className="w-10 h-10 rounded-full bg-white/10 flex items-center justify-center"
+                >
+                    <X className="w-5 h-5" />
+                </button>
+                <button
+                    onClick={() => setAutoCapture(prev => !prev)}
+                    disabled={!!error}
+                    className={`inline-flex items-center gap-2 px-4 py-2 rounded-full text-sm font-medium transition-colors ${autoCapture ? 'bg-white text-black' : 'bg-white/10 text-white'}`}
+                >
+                    {autoCapture ? <Zap className="w-4 h-4" /> : <ZapOff className="w-4 h-4" />}
+                    {autoCapture ? t.cameraAuto : t.cameraManual}
+                </button>
+            </div>
+
+            {/* Viewfinder */}
+            <div className="relative flex-1 min-h-0 flex items-center justify-center overflow-hidden">
+                {error ? (
+                    <p className="px-8 text-center text-sm text-white/80">{t[CAMERA_ERROR_KEYS[error]]}</p>
+                ) : (
+                    <>
+                        <div className="relative max-w-full max-h-full">
+                            <video ref={videoRef} playsInline muted className="block max-w-full max-h-full" />
+                            {quad && (
+                                <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 100 100" preserveAspectRatio="none">
+                                    <polygon
+                                        points={points}
+                                        fill={`rgba(16, 185, 129, ${0.1 + steadiness * 0.2})`}
+                                        stroke={steadiness >= 1 ? 'rgb(16, 185, 129)' : 'rgb(255, 255, 255)'}
+                                        strokeWidth={3}
+                                        vectorEffect="non-scaling-stroke"
+                                    />
+                                </svg>
+                            )}
+                            {flash && <div className="absolute inset-0 bg-white/80" />}
+                        </div>
+                        {!isReady && <Loader2 className="absolute w-8 h-8 animate-spin text-white/60" />}
+                    </>
+                )}
+            </div>
+
+            {/* Shots taken so far */}
+            {shots.length > 0 && (
+                <div className="flex gap-2 px-4 pt-3 overflow-x-auto">
+                    {shots.map((shot, i) => (
+                        <div key={shot.url} className="relative w-14 h-14 flex-shrink-0 rounded-lg overflow-hidden bg-white/10">
+                            <img src={shot.url} alt={formatMessage(t.cameraShot, { number: i + 1 })} className="w-full h-full object-cover" />
+                            <button
+                                onClick={() => removeShot(i)}
+                                aria-label={formatMessage(t.removeShot, { number: i + 1 })}
+                                className="absolute top-0.5 end-0.5 w-5 h-5 bg-black/60 rounded-full flex items-center justify-center text-[10px]"
+                            >
+                                ✕
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            )}
+
+            {/* Controls */}
+            <div className="flex items-center justify-between gap-4 p-6">
+                <button
+                    onClick={retake}
+                    disabled={shots.length === 0}
+                    className="w-24 inline-flex items-center justify-center gap-1.5 py-2.5 rounded-full bg-white/10 text-sm font-medium disabled:opacity-30"
+                >
+                    <RotateCcw className="w-4 h-4" />
+                    {t.retake}
+                </button>
+                <button
+                    onClick={() => void capture()}
+                    disabled={!isReady}
+                    aria-label={t.takePhoto}
+                    className="w-18 h-18 rounded-full border-4 border-white flex items-center justify-center active:scale-95 transition-transform disabled:opacity-30"
+                >
+                    <span className="w-14 h-14 rounded-full bg-white flex items-center justify-center">
+                        <Camera className="w-6 h-6 text-black" />
+                    </span>
+                </button>
+                <button
+                    onClick={() => onDone(shots.map(shot => shot.file))}
+                    disabled={shots.length === 0}
+                    className="w-24 inline-flex items-center justify-center gap-1.5 py-2.5 rounded-full bg-white text-black text-sm font-semibold disabled:opacity-30"
+                >
+                    <Check className="w-4 h-4" />
+                    {formatMessage(t.cameraDone, { count: shots.length })}
+                </button>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,235 @@
+/**
+ * CropEditor — modal for straightening a photo of a page. Drag the four
+ * corner handles onto the page edges, rotate in quarter turns, and apply to
+ * get a perspective-corrected image.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import { X, Crop, RotateCw, ScanLine, Maximize, Check, Loader2 } from 'lucide-react';
+import { motion } from 'motion/react';
+import type { Messages, TextKey } from './i18n';
+import { FULL_QUAD, detectQuad, drawRotated, rotateQuad, warpQuad } from './perspective';
+import type { Quad } from './perspective';
+
+interface CropEditorProps {
+    file: File;
+    onSave: (file: File) => void;
+    onClose: () => void;
+    t: Messages;
+}
+
+// Longest side of the on-screen preview
+const PREVIEW_SIDE = 1200;
+// Share of the image a corner moves per arrow key press (×10 with Shift)
+const KEY_STEP = 0.005;
+const JPEG_QUALITY = 0.92;
+
+const ARROW_DIRECTIONS: Record<string, [number, number]> = {
+    ArrowLeft: [-1, 0],
+    ArrowRight: [1, 0],
+    ArrowUp: [0, -1],
+    ArrowDown: [0, 1],
+};
+
+const CORNER_LABEL_KEYS: TextKey[] = ['cornerTopLeft', 'cornerTopRight', 'cornerBottomRight', 'cornerBottomLeft'];
+
+const clamp01 = (value: number) => Math.min(Math.max(value, 0), 1);
+
+export default function CropEditor({ file, onSave, onClose, t }: CropEditorProps) {
+    const [bitmap, setBitmap] = useState<ImageBitmap | null>(null);
+    const [turns, setTurns] = useState(0);
+    const [quad, setQuad] = useState<Quad>(FULL_QUAD);
+    const [isSaving, setIsSaving] = useState(false);
+    const [loadFailed, setLoadFailed] = useState(false);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const frameRef = useRef<HTMLDivElement>(null);
+    const dragRef = useRef<number | null>(null);
+
+    // Decode once with EXIF orientation applied and suggest corners
+    useEffect(() => {
+        let cancelled = false;
+        let decoded: ImageBitmap | null = null;
+        createImageBitmap(file, { imageOrientation: 'from-image' })
+            .then(result => {
+                decoded = result;
+                if (cancelled) return result.close();
+                setBitmap(result);
+                setQuad(detectQuad(drawRotated(result, 0, PREVIEW_SIDE)) ?? FULL_QUAD);
+            })
+            .catch(() => setLoadFailed(true));
+        return () => {
+            cancelled = true;
+            decoded?.close();
+        };
+    }, [file]);
+
+    // Redraw the preview whenever the rotation changes
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!bitmap || !canvas) return;
+        const preview = drawRotated(bitmap, turns, PREVIEW_SIDE);
+        canvas.width = preview.width;
+        canvas.height = preview.height;
+        canvas.getContext('2d')!.drawImage(preview, 0, 0);
+    }, [bitmap, turns]);
+
+    const moveCorner = (index: number, x: number, y: number) => {
+        setQuad(prev => prev.map((p, i) => (i === index ? { x: clamp01(x), y: clamp01(y) } : p)) as Quad);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent) => {
+        if (dragRef.current === null || !frameRef.current) return;
+        const rect = frameRef.current.getBoundingClientRect();
+        moveCorner(dragRef.current, (e.clientX - rect.left) / rect.width, (e.clientY - rect.top) / rect.height);
+    };
+
+    const handleKeyDown = (index: number) => (e: React.KeyboardEvent) => {
+        const direction = ARROW_DIRECTIONS[e.key];
+        if (!direction) return;
+        e.preventDefault();
+        const step = KEY_STEP * (e.shiftKey ? 10 : 1);
+        moveCorner(index, quad[index].x + direction[0] * step, quad[index].y + direction[1] * step);
+    };
+
+    const handleRotate = () => {
+        setTurns(prev => (prev + 1) % 4);
+        setQuad(prev => rotateQuad(prev));
+    };
+
+    const handleDetect = () => {
+        if (!bitmap) return;
+        setQuad(detectQuad(drawRotated(bitmap, turns, PREVIEW_SIDE)) ?? FULL_QUAD);
+    };
+
+    const handleSave = async () => {
+        if (!bitmap) return;
+        setIsSaving(true);
+        // Let the spinner paint before the warp blocks the main thread
+        await new Promise(resolve => requestAnimationFrame(() => setTimeout(resolve)));
+        try {
+            const warped = warpQuad(drawRotated(bitmap, turns), quad);
+            const blob = await new Promise<Blob | null>(resolve => warped.toBlob(resolve, 'image/jpeg', JPEG_QUALITY));
+            if (!blob) throw new Error('Could not encode image');
+            const name = file.name.replace(/\.[^.]*$/, '') + '.jpg';
+            onSave(new File([blob], name, { type: 'image/jpeg', lastModified: file.lastModified }));
+        } catch (error) {
+            console.error('Crop failed:', error);
+            setIsSaving(false);
+        }
+    };
+
+    const points = quad.map(p => `${p.x * 100},${p.y * 100}`).join(' ');
+
+    return (
+        <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4"
+            onClick={(e) => { if (e.target === e.currentTarget && !isSaving) onClose(); }}
+        >
+            <motion.div
+                initial={{ opacity: 0, scale: 0.9, y: 20 }}
+                animate={{ opacity: 1, scale: 1, y: 0 }}
+                exit={{ opacity: 0, scale: 0.9, y: 20 }}
+                transition={{ type: 'spring', duration: 0.5 }}
+                className="bg-white rounded-3xl shadow-2xl w-full max-w-3xl overflow-hidden"
+            >
+                {/* Header */}
+                <div className="flex items-center justify-between p-5 border-b border-black/5">
+                    <div>
+                        <h2 className="font-semibold flex items-center gap-2">
+                            <Crop className="w-5 h-5" />
+                            {t.cropTitle}
+                        </h2>
+                        <p className="text-xs text-[#999] mt-0.5">{t.cropHint}</p>
+                    </div>
+                    <button
+                        onClick={onClose}
+                        disabled={isSaving}
+                        className="w-8 h-8 rounded-full bg-black/5 hover:bg-black/10 flex items-center justify-center transition-colors"
+                    >
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+
+                {/* Image with corner handles */}
+                <div className="p-5 bg-[#F5F5F5] flex items-center justify-center">
+                    {loadFailed ? (
+                        <p className="text-sm text-red-600 py-12">{t.cropLoadFailed}</p>
+                    ) : !bitmap ? (
+                        <Loader2 className="w-8 h-8 animate-spin text-black/40 my-12" />
+                    ) : (
+                        <div
+                            ref={frameRef}
+                            className="relative touch-none select-none"
+                            onPointerMove={handlePointerMove}
+                            onPointerUp={() => { dragRef.current = null; }}
+                            onPointerCancel={() => { dragRef.current = null; }}
+                        >
+                            <canvas ref={canvasRef} className="block max-w-full max-h-[60vh] w-auto h-auto rounded-lg" />
+                            <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 100 100" preserveAspectRatio="none">
+                                <polygon
+                                    points={points}
+                                    fill="rgba(59, 130, 246, 0.12)"
+                                    stroke="rgb(59, 130, 246)"
+                                    strokeWidth={2}
+                                    vectorEffect="non-scaling-stroke"
+                                />
+                            </svg>
+                            {quad.map((p, index) => (
+                                <button
+                                    key={index}
+                                    aria-label={t[CORNER_LABEL_KEYS[index]]}
+                                    onPointerDown={(e) => {
+                                        e.currentTarget.setPointerCapture(e.pointerId);
+                                        dragRef.current = index;
+                                    }}
+                                    onKeyDown={handleKeyDown(index)}
+                                    className="absolute w-6 h-6 -ml-3 -mt-3 rounded-full bg-white border-2 border-blue-500 shadow-md cursor-grab active:cursor-grabbing focus:outline-none focus:ring-4 focus:ring-blue-500/30"
+                                    style={{ left: `${p.x * 100}%`, top: `${p.y * 100}%` }}
+                                />
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                {/* Actions */}
+                <div className="flex flex-wrap items-center gap-2 p-5 border-t border-black/5">
+                    <button
+                        onClick={handleRotate}
+                        disabled={!bitmap || isSaving}
+                        className="inline-flex items-center gap-2 px-4 py-2.5 rounded-xl bg-black/5 hover:bg-black/10 disabled:opacity-50 transition-colors text-sm font-medium"
+                    >
+                        <RotateCw className="w-4 h-4" />
+                        {t.rotate}
+                    </button>
+                    <button
+                        onClick={handleDetect}
+                        disabled={!bitmap || isSaving}
+                        className="inline-flex items-center gap-2 px-4 py-2.5 rounded-xl bg-black/5 hover:bg-black/10 disabled:opacity-50 transition-colors text-sm font-medium"
+                    >
+                        <ScanLine className="w-4 h-4" />
+                        {t.detectPage}
+                    </button>
+                    <button
+                        onClick={() => setQuad(FULL_QUAD)}
+                        disabled={!bitmap || isSaving}
+                        className="inline-flex items-center gap-2 px-4 py-2.5 rounded-xl bg-black/5 hover:bg-black/10 disabled:opacity-50 transition-colors text-sm font-medium"
+                    >
+                        <Maximize className="w-4 h-4" />
+                        {t.resetCrop}
+                    </button>
+                    <button
+                        onClick={handleSave}
+                        disabled={!bitmap || isSaving}
+                        className="ms-auto inline-flex items-center gap-2 px-5 py-2.5 rounded-xl bg-black text-white font-medium text-sm hover:scale-[1.02] active:scale-[0.98] disabled:opacity-50 transition-all"
+                    >
+                        {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Check className="w-4 h-4" />}
+                        {isSaving ? t.saving : t.applyCrop}
+                    </button>
+                </div>
+            </motion.div>
+        </motion.div>
+    );
+}
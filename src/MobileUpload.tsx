@@ -1,109 +1,250 @@
 /**
  * MobileUpload — Lightweight phone upload page.
- * Rendered when the URL contains ?mode=upload&peer=PEER_ID.
- * Connects to the PC browser via PeerJS WebRTC and sends selected photos.
+ * Rendered when the URL contains ?mode=upload&peer=PEER_ID&lang=LANG#key=SECRET.
+ * Connects to the PC browser via PeerJS WebRTC, pairs using the secret from
+ * the QR code and sends selected photos, reconnecting and resuming if the
+ * connection drops mid-transfer. Several batches can go over one pairing
+ * until the PC ends the session, and the PC can send the finished document
+ * back to be downloaded, shared or copied here.
  */
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
-import Peer from 'peerjs';
 import type { DataConnection } from 'peerjs';
-import { Upload, CheckCircle2, Loader2, Wifi, WifiOff, ImagePlus, Send } from 'lucide-react';
+import { Upload, CheckCircle2, Loader2, Wifi, WifiOff, ImagePlus, Send, FileText, ShieldCheck, Camera, Download, Share2, Copy, Check } from 'lucide-react';
+import CameraCapture from './CameraCapture';
+import { detectLang, formatMessage, isLang, langDirection, locales, plural } from './i18n';
+import { ACCEPTED_INPUTS, isPdf } from './inputs';
+import { confirmationCode, isByeMessage, isWelcomeMessage, pairingProof } from './pairing';
+import type { HelloMessage } from './pairing';
+import { BROKER_RETRY_MS, createPeer, usesCloudBroker } from './peer';
+import { TransferError, createReceiver, formatMegabytes, isSenderMessage, sendBatch } from './transfer';
+import type { TransferProgress } from './transfer';
+
+type Status = 'connecting' | 'connected' | 'sending' | 'reconnecting' | 'done' | 'ended' | 'error';
+
+// A document the PC sent back; text files are also shown inline for copying
+interface ReceivedFile {
+    file: File;
+    url: string;
+    text?: string;
+}
 
-type Status = 'connecting' | 'connected' | 'sending' | 'done' | 'error';
+// Reconnect attempts after a dropped connection, doubling the delay each time
+const MAX_RECONNECTS = 5;
+const RECONNECT_BASE_MS = 1000;
+
+// Name the PC lists this phone under; it may add a number if two are alike
+const deviceLabel = () => {
+    const ua = navigator.userAgent;
+    if (/iPad/.test(ua)) return 'iPad';
+    if (/iPhone/.test(ua)) return 'iPhone';
+    const model = ua.match(/Android [\d.]+; ([^;)]+)/)?.[1]?.replace(/ Build\/.*$/, '').trim();
+    // Browsers with a reduced user agent report every model as "K"
+    if (model && model !== 'K') return model;
+    return /Android/.test(ua) ? 'Android' : 'Phone';
+};
+
+const copyText = async (text: string) => {
+    if (navigator.clipboard?.writeText) return navigator.clipboard.writeText(text);
+    // The Clipboard API is missing on plain-HTTP pages
+    const area = document.createElement('textarea');
+    area.value = text;
+    document.body.appendChild(area);
+    area.select();
+    document.execCommand('copy');
+    area.remove();
+};
 
 export default function MobileUpload() {
     const params = new URLSearchParams(window.location.search);
     const remotePeerId = params.get('peer') || '';
+    const secret = new URLSearchParams(window.location.hash.slice(1)).get('key') || '';
+    // The PC's language, so both screens match; older QR codes have none
+    const requestedLang = params.get('lang');
+    const lang = isLang(requestedLang) ? requestedLang : detectLang();
+    const t = locales[lang];
 
     const [status, setStatus] = useState<Status>('connecting');
     const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
     const [previews, setPreviews] = useState<string[]>([]);
-    const [sendProgress, setSendProgress] = useState(0);
-    const [totalFiles, setTotalFiles] = useState(0);
+    const [progress, setProgress] = useState<TransferProgress | null>(null);
+    const [code, setCode] = useState('');
+    const [label, setLabel] = useState('');
+    const [showCamera, setShowCamera] = useState(false);
+    const [received, setReceived] = useState<ReceivedFile[]>([]);
+    const [incoming, setIncoming] = useState<TransferProgress | null>(null);
+    const [copied, setCopied] = useState<string | null>(null);
+    const receivedRef = useRef<ReceivedFile[]>([]);
+    receivedRef.current = received;
+    const previewsRef = useRef<string[]>([]);
+    previewsRef.current = previews;
     const connRef = useRef<DataConnection | null>(null);
+    // The batch being sent, kept until the PC has all of it so a reconnect can resume
+    const batchRef = useRef<File[] | null>(null);
+    // Set when the PC ends the session; no reconnecting after that
+    const endedRef = useRef(false);
     const fileInputRef = useRef<HTMLInputElement>(null);
 
+    const startSending = useCallback(async () => {
+        const conn = connRef.current;
+        const batch = batchRef.current;
+        if (!conn || !batch) return;
+
+        setStatus('sending');
+        try {
+            await sendBatch(conn, batch, setProgress);
+            batchRef.current = null;
+            setStatus('done');
+        } catch (error) {
+            // A dropped or stalled connection is picked up by the reconnect below
+            if (error instanceof TransferError && error.reason !== 'verification') return;
+            console.error('Transfer failed:', error);
+            setStatus('error');
+        }
+    }, []);
+
     useEffect(() => {
-        if (!remotePeerId) {
+        if (!remotePeerId || !secret) {
             setStatus('error');
             return;
         }
 
-        const peer = new Peer();
+        const peer = createPeer();
+        // Set once the PC has accepted our pairing proof
+        let everConnected = false;
+        let attempts = 0;
+        let retryTimer: ReturnType<typeof setTimeout> | undefined;
+        // Documents from the PC; kept across reconnects so a cut-off file resumes
+        const receiver = createReceiver({
+            onFile: (file) => {
+                const entry = { file, url: URL.createObjectURL(file) };
+                setReceived(prev => [...prev, entry]);
+                if (file.type.startsWith('text/')) {
+                    void file.text().then(text =>
+                        setReceived(prev => prev.map(item => (item === entry ? { ...item, text } : item))));
+                }
+            },
+            onProgress: setIncoming,
+            onDone: () => setIncoming(null),
+        });
 
-        peer.on('open', () => {
+        const connect = () => {
             const conn = peer.connect(remotePeerId, { reliable: true });
 
-            conn.on('open', () => {
+            conn.on('open', async () => {
+                conn.send({ type: 'hello', proof: await pairingProof(secret, conn), label: deviceLabel() } satisfies HelloMessage);
+            });
+
+            // The PC closes the connection instead if it doesn't accept us
+            conn.on('data', (data: unknown) => {
+                if (isByeMessage(data)) {
+                    endedRef.current = true;
+                    setStatus('ended');
+                    return;
+                }
+                if (connRef.current === conn) {
+                    // Replies to our own sends are read by sendBatch
+                    if (isSenderMessage(data)) receiver.handle(conn, data);
+                    return;
+                }
+                if (!isWelcomeMessage(data)) return;
+                everConnected = true;
+                attempts = 0;
                 connRef.current = conn;
-                setStatus('connected');
+                setLabel(data.label);
+                void confirmationCode(secret, conn).then(setCode);
+                if (batchRef.current) void startSending();
+                else setStatus('connected');
             });
 
             conn.on('close', () => {
-                // Don't set error if we already completed
-                setStatus(prev => prev === 'done' ? 'done' : 'error');
+                if (connRef.current === conn) connRef.current = null;
+                reconnect();
             });
 
-            conn.on('error', () => {
+            conn.on('error', () => conn.close());
+        };
+
+        const reconnect = () => {
+            if (peer.destroyed || endedRef.current || retryTimer) return;
+            if (!everConnected || attempts >= MAX_RECONNECTS) {
                 setStatus('error');
-            });
+                return;
+            }
+            setStatus('reconnecting');
+            retryTimer = setTimeout(() => {
+                retryTimer = undefined;
+                // A peer cut off from the broker reopens first, which connects again
+                if (peer.disconnected) peer.reconnect();
+                else if (peer.open) connect();
+            }, RECONNECT_BASE_MS * 2 ** attempts++);
+        };
+
+        // Also fires when the broker comes back; a live connection carries on
+        peer.on('open', () => {
+            if (!connRef.current?.open) connect();
         });
 
-        peer.on('error', () => {
-            setStatus('error');
+        // Losing the broker leaves the connection to the PC up, so only start
+        // over when the PC is gone or there is no connection to keep
+        peer.on('error', (error) => {
+            if (error.type === 'peer-unavailable' || !connRef.current?.open) reconnect();
+        });
+
+        // Deferred because destroy() disconnects first, and that peer must stay down
+        peer.on('disconnected', () => {
+            setTimeout(() => {
+                if (peer.disconnected && !peer.destroyed && connRef.current?.open) peer.reconnect();
+            }, BROKER_RETRY_MS);
         });
 
         return () => {
+            clearTimeout(retryTimer);
             peer.destroy();
         };
-    }, [remotePeerId]);
+    }, [remotePeerId, secret, startSending]);
+
+    useEffect(() => () => receivedRef.current.forEach(item => URL.revokeObjectURL(item.url)), []);
+
+    // Thumbnails are revoked as they're removed, and the rest on unmount
+    useEffect(() => () => previewsRef.current.forEach(url => URL.revokeObjectURL(url)), []);
 
-    // Clean up preview URLs
     useEffect(() => {
-        return () => {
-            previews.forEach(url => URL.revokeObjectURL(url));
-        };
-    }, [previews]);
+        document.documentElement.lang = lang;
+        document.documentElement.dir = langDirection(lang);
+    }, [lang]);
 
-    const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
-        if (!e.target.files) return;
-        const files = Array.from(e.target.files) as File[];
+    const addFiles = (files: File[]) => {
         setSelectedFiles(prev => [...prev, ...files]);
         const newPreviews = files.map(f => URL.createObjectURL(f as Blob));
         setPreviews(prev => [...prev, ...newPreviews]);
     };
 
-    const sendFiles = useCallback(async () => {
-        const conn = connRef.current;
-        if (!conn || selectedFiles.length === 0) return;
-
-        setStatus('sending');
-        setTotalFiles(selectedFiles.length);
-        setSendProgress(0);
-
-        for (let i = 0; i < selectedFiles.length; i++) {
-            const file = selectedFiles[i];
-            const arrayBuffer = await file.arrayBuffer();
-
-            conn.send({
-                type: 'file',
-                name: file.name,
-                mimeType: file.type,
-                data: arrayBuffer,
-                index: i,
-                total: selectedFiles.length,
-            });
+    const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
+        if (!e.target.files) return;
+        addFiles(Array.from(e.target.files) as File[]);
+    };
 
-            setSendProgress(i + 1);
+    // Start over with an empty selection for the next batch
+    const sendMore = () => {
+        previews.forEach(url => URL.revokeObjectURL(url));
+        setSelectedFiles([]);
+        setPreviews([]);
+        setProgress(null);
+        setStatus('connected');
+    };
 
-            // Small delay to avoid overwhelming the data channel
-            await new Promise(r => setTimeout(r, 100));
-        }
+    const handleCameraDone = (files: File[]) => {
+        addFiles(files);
+        setShowCamera(false);
+    };
 
-        // Signal completion
-        conn.send({ type: 'done' });
-        setStatus('done');
-    }, [selectedFiles]);
+    const sendFiles = () => {
+        if (selectedFiles.length === 0) return;
+        batchRef.current = selectedFiles;
+        setProgress(null);
+        void startSending();
+    };
 
     const removeFile = (index: number) => {
         URL.revokeObjectURL(previews[index]);
@@ -111,6 +252,29 @@ export default function MobileUpload() {
         setPreviews(prev => prev.filter((_, i) => i !== index));
     };
 
+    const shareFile = async (file: File) => {
+        try {
+            await navigator.share({ files: [file], title: file.name });
+        } catch (error) {
+            // Closing the share sheet rejects too
+            if ((error as Error)?.name !== 'AbortError') console.error('Share failed:', error);
+        }
+    };
+
+    const handleCopy = async (item: ReceivedFile) => {
+        if (item.text === undefined) return;
+        try {
+            await copyText(item.text);
+            setCopied(item.url);
+            setTimeout(() => setCopied(null), 2000);
+        } catch (error) {
+            console.error('Copy failed:', error);
+        }
+    };
+
+    const isTransferring = status === 'sending' || status === 'reconnecting';
+    const fileCount = progress?.fileCount ?? selectedFiles.length;
+
     return (
         <div className="min-h-screen bg-[#F5F5F5] text-[#1A1A1A] font-sans">
             <div className="max-w-lg mx-auto px-4 py-8">
@@ -121,42 +285,135 @@ export default function MobileUpload() {
                         <Upload className="w-7 h-7 text-black" />
                     </div>
                     <h1 className="text-2xl font-semibold tracking-tight mb-1">SnapConvert</h1>
-                    <p className="text-sm text-[#666]">Send photos to your PC</p>
+                    <p className="text-sm text-[#666]">{t.mobileTagline}</p>
                 </header>
 
                 {/* Status Banner */}
                 <div className={`rounded-2xl p-4 mb-6 flex items-center gap-3 text-sm font-medium border ${status === 'connecting' ? 'bg-amber-50 text-amber-700 border-amber-200' :
                     status === 'connected' ? 'bg-emerald-50 text-emerald-700 border-emerald-200' :
+                        status === 'reconnecting' ? 'bg-amber-50 text-amber-700 border-amber-200' :
                         status === 'sending' ? 'bg-blue-50 text-blue-700 border-blue-200' :
                             status === 'done' ? 'bg-emerald-50 text-emerald-700 border-emerald-200' :
-                                'bg-red-50 text-red-700 border-red-200'
+                                status === 'ended' ? 'bg-white text-[#666] border-black/10' :
+                                    'bg-red-50 text-red-700 border-red-200'
                     }`}>
-                    {status === 'connecting' && <><Loader2 className="w-5 h-5 animate-spin flex-shrink-0" /> Connecting to PC…</>}
-                    {status === 'connected' && <><Wifi className="w-5 h-5 flex-shrink-0" /> Connected! Select photos to send.</>}
-                    {status === 'sending' && <><Loader2 className="w-5 h-5 animate-spin flex-shrink-0" /> Sending {sendProgress}/{totalFiles}…</>}
-                    {status === 'done' && <><CheckCircle2 className="w-5 h-5 flex-shrink-0" /> All photos sent! You can close this page.</>}
-                    {status === 'error' && <><WifiOff className="w-5 h-5 flex-shrink-0" /> Connection failed. Please scan the QR code again.</>}
+                    {status === 'connecting' && <><Loader2 className="w-5 h-5 animate-spin flex-shrink-0" /> {t.mobileConnecting}</>}
+                    {status === 'connected' && <><Wifi className="w-5 h-5 flex-shrink-0" /> {t.mobileConnected}</>}
+                    {status === 'sending' && <><Loader2 className="w-5 h-5 animate-spin flex-shrink-0" /> {formatMessage(t.mobileSendingFile, { index: (progress?.fileIndex ?? 0) + 1, count: fileCount })}</>}
+                    {status === 'reconnecting' && <><Loader2 className="w-5 h-5 animate-spin flex-shrink-0" /> {t.mobileReconnecting}</>}
+                    {status === 'done' && <><CheckCircle2 className="w-5 h-5 flex-shrink-0" /> {t.mobileAllSent}</>}
+                    {status === 'ended' && <><WifiOff className="w-5 h-5 flex-shrink-0" /> {t.mobileEnded}</>}
+                    {status === 'error' && <><WifiOff className="w-5 h-5 flex-shrink-0" /> {t.mobileFailed}</>}
                 </div>
 
+                {/* Same code as on the PC, so the user can tell they paired with their own computer */}
+                {code && (status === 'connected' || isTransferring) && (
+                    <div className="rounded-2xl p-4 mb-6 flex items-center justify-between gap-3 text-sm bg-white border border-black/5">
+                        <span className="flex items-center gap-2 text-[#666]">
+                            <ShieldCheck className="w-5 h-5 text-emerald-600 flex-shrink-0" />
+                            <span>
+                                {t.mobileCheckCode}
+                                {label && <span className="block text-xs text-[#999]">{formatMessage(t.mobileListedAs, { label })}</span>}
+                            </span>
+                        </span>
+                        <span className="font-mono font-semibold tracking-wider">{code}</span>
+                    </div>
+                )}
+
+                {/* Documents sent back from the PC */}
+                {(received.length > 0 || incoming) && (
+                    <div className="bg-white rounded-2xl border border-black/5 overflow-hidden mb-6">
+                        <div className="p-3 bg-[#FAFAFA] border-b border-black/5 text-sm font-medium text-[#666] flex items-center justify-between">
+                            <span>{t.fromPc}</span>
+                            {incoming && (
+                                <span className="flex items-center gap-1.5 tabular-nums">
+                                    <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                                    {formatMegabytes(incoming.bytes)} / {formatMegabytes(incoming.totalBytes)} MB
+                                </span>
+                            )}
+                        </div>
+                        <div className="divide-y divide-black/5">
+                            {received.map(item => (
+                                <div key={item.url} className="p-3">
+                                    <div className="flex items-center gap-3">
+                                        <FileText className="w-5 h-5 text-[#666] flex-shrink-0" />
+                                        <div className="min-w-0 flex-1">
+                                            <p className="text-sm font-medium truncate">{item.file.name}</p>
+                                            <p className="text-xs text-[#999]">{formatMegabytes(item.file.size)} MB</p>
+                                        </div>
+                                    </div>
+                                    {item.text !== undefined && (
+                                        <textarea
+                                            readOnly
+                                            value={item.text}
+                                            className="mt-3 w-full h-32 p-3 rounded-xl bg-[#F5F5F5] text-xs text-[#333] resize-none focus:outline-none"
+                                        />
+                                    )}
+                                    <div className="mt-3 flex gap-2">
+                                        <a
+                                            href={item.url}
+                                            download={item.file.name}
+                                            className="flex-1 inline-flex items-center justify-center gap-1.5 py-2.5 rounded-xl bg-black text-white text-sm font-medium active:scale-[0.98] transition-all"
+                                        >
+                                            <Download className="w-4 h-4" />
+                                            {t.download}
+                                        </a>
+                                        {navigator.canShare?.({ files: [item.file] }) && (
+                                            <button
+                                                onClick={() => void shareFile(item.file)}
+                                                className="flex-1 inline-flex items-center justify-center gap-1.5 py-2.5 rounded-xl bg-[#F5F5F5] text-sm font-medium active:scale-[0.98] transition-all"
+                                            >
+                                                <Share2 className="w-4 h-4" />
+                                                {t.share}
+                                            </button>
+                                        )}
+                                        {item.text !== undefined && (
+                                            <button
+                                                onClick={() => void handleCopy(item)}
+                                                className="flex-1 inline-flex items-center justify-center gap-1.5 py-2.5 rounded-xl bg-[#F5F5F5] text-sm font-medium active:scale-[0.98] transition-all"
+                                            >
+                                                {copied === item.url ? <Check className="w-4 h-4 text-emerald-600" /> : <Copy className="w-4 h-4" />}
+                                                {copied === item.url ? t.copiedText : t.copyText}
+                                            </button>
+                                        )}
+                                    </div>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
                 {/* File picker + preview (only when connected or has files) */}
-                {(status === 'connected' || status === 'sending') && (
+                {(status === 'connected' || isTransferring) && (
                     <>
                         {/* Pick Photos Button */}
                         <button
                             onClick={() => fileInputRef.current?.click()}
-                            disabled={status === 'sending'}
-                            className={`w-full py-4 rounded-2xl font-semibold flex items-center justify-center gap-3 transition-all mb-4 ${status === 'sending'
+                            disabled={isTransferring}
+                            className={`w-full py-4 rounded-2xl font-semibold flex items-center justify-center gap-3 transition-all mb-4 ${isTransferring
                                 ? 'bg-[#E5E5E5] text-[#999] cursor-not-allowed'
                                 : 'bg-white text-black border-2 border-dashed border-black/15 hover:border-black/30 active:scale-[0.98]'
                                 }`}
                         >
                             <ImagePlus className="w-5 h-5" />
-                            {selectedFiles.length > 0 ? `Add more photos` : `Select photos`}
+                            {selectedFiles.length > 0 ? t.mobileAddMore : t.mobileSelectPhotos}
+                        </button>
+                        {/* Scan pages in place instead of going through the camera app */}
+                        <button
+                            onClick={() => setShowCamera(true)}
+                            disabled={isTransferring}
+                            className={`w-full py-4 rounded-2xl font-semibold flex items-center justify-center gap-3 transition-all mb-4 ${isTransferring
+                                ? 'bg-[#E5E5E5] text-[#999] cursor-not-allowed'
+                                : 'bg-white text-black border border-black/10 hover:border-black/30 active:scale-[0.98]'
+                                }`}
+                        >
+                            <Camera className="w-5 h-5" />
+                            {t.scanWithCamera}
                         </button>
                         <input
                             ref={fileInputRef}
                             type="file"
-                            accept="image/jpeg,image/png"
+                            accept={ACCEPTED_INPUTS}
                             multiple
                             onChange={handleFileSelect}
                             className="hidden"
@@ -166,16 +423,24 @@ export default function MobileUpload() {
                         {selectedFiles.length > 0 && (
                             <div className="bg-white rounded-2xl border border-black/5 overflow-hidden mb-4">
                                 <div className="p-3 bg-[#FAFAFA] border-b border-black/5 text-sm font-medium text-[#666]">
-                                    {selectedFiles.length} photo{selectedFiles.length !== 1 ? 's' : ''} selected
+                                    {plural(lang, t.photosSelected, selectedFiles.length)}
                                 </div>
                                 <div className="p-3 grid grid-cols-3 gap-2">
                                     {previews.map((src, i) => (
                                         <div key={i} className="relative aspect-square rounded-xl overflow-hidden bg-[#F5F5F5]">
-                                            <img src={src} alt="" className="w-full h-full object-cover" />
+                                            {/* PDFs can't be previewed as an image; the PC converts them */}
+                                            {isPdf(selectedFiles[i]) ? (
+                                                <div className="w-full h-full flex flex-col items-center justify-center gap-1 p-2 text-[#666]">
+                                                    <FileText className="w-6 h-6" />
+                                                    <span className="text-[10px] truncate max-w-full">{selectedFiles[i].name}</span>
+                                                </div>
+                                            ) : (
+                                                <img src={src} alt="" className="w-full h-full object-cover" />
+                                            )}
                                             {status === 'connected' && (
                                                 <button
                                                     onClick={() => removeFile(i)}
-                                                    className="absolute top-1 right-1 w-6 h-6 bg-black/60 rounded-full flex items-center justify-center text-white text-xs"
+                                                    className="absolute top-1 end-1 w-6 h-6 bg-black/60 rounded-full flex items-center justify-center text-white text-xs"
                                                 >
                                                     ✕
                                                 </button>
@@ -193,21 +458,25 @@ export default function MobileUpload() {
                                 className="w-full py-4 rounded-2xl font-semibold flex items-center justify-center gap-3 transition-all bg-black text-white hover:scale-[1.01] active:scale-[0.98] shadow-xl"
                             >
                                 <Send className="w-5 h-5" />
-                                Send {selectedFiles.length} photo{selectedFiles.length !== 1 ? 's' : ''} to PC
+                                {plural(lang, t.sendPhotos, selectedFiles.length)}
                             </button>
                         )}
 
                         {/* Send progress bar */}
-                        {status === 'sending' && (
+                        {isTransferring && (
                             <div className="bg-white rounded-2xl border border-black/5 p-4">
                                 <div className="flex items-center justify-between mb-2">
-                                    <p className="text-sm font-medium text-[#333]">Sending photos…</p>
-                                    <p className="text-sm font-semibold text-black tabular-nums">{sendProgress}/{totalFiles}</p>
+                                    <p className="text-sm font-medium text-[#333]">
+                                        {status === 'reconnecting' ? t.mobilePaused : t.mobileSendingPhotos}
+                                    </p>
+                                    <p className="text-sm font-semibold text-black tabular-nums">
+                                        {formatMegabytes(progress?.bytes ?? 0)} / {formatMegabytes(progress?.totalBytes ?? 0)} MB
+                                    </p>
                                 </div>
                                 <div className="w-full h-2.5 bg-black/5 rounded-full overflow-hidden">
                                     <div
                                         className="h-full bg-black rounded-full transition-all duration-300"
-                                        style={{ width: `${(sendProgress / totalFiles) * 100}%` }}
+                                        style={{ width: `${progress && progress.totalBytes > 0 ? (progress.bytes / progress.totalBytes) * 100 : 0}%` }}
                                     />
                                 </div>
                             </div>
@@ -219,8 +488,23 @@ export default function MobileUpload() {
                 {status === 'done' && (
                     <div className="text-center py-8">
                         <CheckCircle2 className="w-16 h-16 text-emerald-500 mx-auto mb-4" />
-                        <p className="text-lg font-semibold mb-1">Photos sent!</p>
-                        <p className="text-sm text-[#666]">Check your PC browser — your photos are ready.</p>
+                        <p className="text-lg font-semibold mb-1">{t.mobilePhotosSent}</p>
+                        <p className="text-sm text-[#666] mb-5">{t.mobilePhotosSentDetail}</p>
+                        <button
+                            onClick={sendMore}
+                            className="inline-flex items-center gap-2 px-6 py-3 rounded-xl bg-black text-white font-medium text-sm active:scale-[0.98] transition-all"
+                        >
+                            <ImagePlus className="w-4 h-4" />
+                            {t.mobileSendMore}
+                        </button>
+                    </div>
+                )}
+
+                {/* Session ended from the PC */}
+                {status === 'ended' && (
+                    <div className="text-center py-8">
+                        <p className="text-lg font-semibold mb-1">{t.mobileSessionEnded}</p>
+                        <p className="text-sm text-[#666]">{t.mobileSessionEndedDetail}</p>
                     </div>
                 )}
 
@@ -228,19 +512,23 @@ export default function MobileUpload() {
                 {status === 'error' && (
                     <div className="text-center py-8">
                         <WifiOff className="w-16 h-16 text-red-400 mx-auto mb-4" />
-                        <p className="text-lg font-semibold mb-1">Connection lost</p>
-                        <p className="text-sm text-[#666] mb-4">Make sure your phone and PC are on the same WiFi network.</p>
+                        <p className="text-lg font-semibold mb-1">{t.mobileConnectionLost}</p>
+                        <p className="text-sm text-[#666] mb-4">{t.mobileSameWifi}</p>
                         <button
                             onClick={() => window.location.reload()}
                             className="px-6 py-3 rounded-xl bg-black text-white font-medium text-sm"
                         >
-                            Try again
+                            {t.tryAgain}
                         </button>
                     </div>
                 )}
 
+                {showCamera && (
+                    <CameraCapture onDone={handleCameraDone} onClose={() => setShowCamera(false)} t={t} />
+                )}
+
                 <footer className="mt-12 text-center text-xs text-[#999]">
-                    <p>Peer-to-peer transfer • No cloud uploads</p>
+                    <p>{t.mobileFooter}{usesCloudBroker ? ` • ${t.mobileCloudBroker}` : ''}</p>
                 </footer>
             </div>
         </div>
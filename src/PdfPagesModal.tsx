@@ -0,0 +1,150 @@
+/**
+ * PdfPagesModal — asks which pages of a PDF to import, then renders each
+ * selected page into its own image.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { X, FileText, Loader2, Check } from 'lucide-react';
+import { motion } from 'motion/react';
+import { plural } from './i18n';
+import type { Lang, Messages } from './i18n';
+import { countPdfPages, parsePageRange, rasterizePdf } from './inputs';
+
+interface PdfPagesModalProps {
+    file: File;
+    onImport: (images: File[], pages: number[]) => void;
+    onSkip: () => void;
+    lang: Lang;
+    t: Messages;
+}
+
+type ModalStatus = 'loading' | 'choosing' | 'rendering' | 'error';
+
+export default function PdfPagesModal({ file, onImport, onSkip, lang, t }: PdfPagesModalProps) {
+    const [status, setStatus] = useState<ModalStatus>('loading');
+    const [pageCount, setPageCount] = useState(0);
+    const [range, setRange] = useState('');
+
+    useEffect(() => {
+        let cancelled = false;
+        setStatus('loading');
+        setRange('');
+        countPdfPages(file)
+            .then(count => {
+                if (cancelled) return;
+                setPageCount(count);
+                setStatus('choosing');
+            })
+            .catch(error => {
+                console.error(`Could not open ${file.name}:`, error);
+                if (!cancelled) setStatus('error');
+            });
+        return () => { cancelled = true; };
+    }, [file]);
+
+    const pages = status === 'choosing' ? parsePageRange(range, pageCount) : null;
+
+    const handleImport = async () => {
+        if (!pages || pages.length === 0) return;
+        setStatus('rendering');
+        try {
+            onImport(await rasterizePdf(file, pages), pages);
+        } catch (error) {
+            console.error(`Could not render ${file.name}:`, error);
+            setStatus('error');
+        }
+    };
+
+    return (
+        <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-[100] flex items-center justify-center bg-black/50 backdrop-blur-sm p-4"
+            onClick={(e) => { if (e.target === e.currentTarget && status !== 'rendering') onSkip(); }}
+        >
+            <motion.div
+                initial={{ opacity: 0, scale: 0.9, y: 20 }}
+                animate={{ opacity: 1, scale: 1, y: 0 }}
+                exit={{ opacity: 0, scale: 0.9, y: 20 }}
+                transition={{ type: 'spring', duration: 0.5 }}
+                className="bg-white rounded-3xl shadow-2xl w-full max-w-sm overflow-hidden"
+            >
+                {/* Header */}
+                <div className="flex items-center justify-between p-5 border-b border-black/5">
+                    <h2 className="font-semibold flex items-center gap-2 min-w-0">
+                        <FileText className="w-5 h-5 flex-shrink-0" />
+                        <span className="truncate">{file.name}</span>
+                    </h2>
+                    <button
+                        onClick={onSkip}
+                        disabled={status === 'rendering'}
+                        className="w-8 h-8 rounded-full bg-black/5 hover:bg-black/10 flex items-center justify-center transition-colors flex-shrink-0"
+                    >
+                        <X className="w-4 h-4" />
+                    </button>
+                </div>
+
+                {/* Body */}
+                <div className="p-6">
+                    {status === 'loading' && (
+                        <div className="py-6 text-center">
+                            <Loader2 className="w-8 h-8 animate-spin mx-auto text-black/40" />
+                        </div>
+                    )}
+
+                    {status === 'choosing' && (
+                        <>
+                            <label htmlFor="pdf-page-range" className="block text-sm font-medium mb-1">
+                                {t.pdfPages}
+                            </label>
+                            <p className="text-xs text-[#999] mb-3">
+                                {plural(lang, t.pdfPagesHint, pageCount)}
+                            </p>
+                            <input
+                                id="pdf-page-range"
+                                value={range}
+                                onChange={(e) => setRange(e.target.value)}
+                                onKeyDown={(e) => { if (e.key === 'Enter') handleImport(); }}
+                                placeholder={`1-${pageCount}`}
+                                autoFocus
+                                className={`w-full px-4 py-3 rounded-xl border-2 text-sm font-mono focus:outline-none transition-colors
+                                    ${pages ? 'border-black/10 focus:border-black/30' : 'border-red-300 focus:border-red-400'}`}
+                            />
+                            {!pages && (
+                                <p className="text-xs text-red-600 mt-2">{t.pdfPagesInvalid}</p>
+                            )}
+                            <button
+                                onClick={handleImport}
+                                disabled={!pages}
+                                className="mt-5 w-full inline-flex items-center justify-center gap-2 px-6 py-3 rounded-xl bg-black text-white font-medium text-sm hover:scale-[1.02] active:scale-[0.98] disabled:opacity-50 disabled:pointer-events-none transition-all"
+                            >
+                                <Check className="w-4 h-4" />
+                                {plural(lang, t.pdfImport, pages?.length ?? 0)}
+                            </button>
+                        </>
+                    )}
+
+                    {status === 'rendering' && (
+                        <div className="py-6 text-center">
+                            <Loader2 className="w-8 h-8 animate-spin mx-auto text-black/60 mb-3" />
+                            <p className="text-sm text-[#666]">{t.pdfRendering}</p>
+                        </div>
+                    )}
+
+                    {status === 'error' && (
+                        <div className="py-4 text-center">
+                            <p className="font-semibold text-red-600 mb-4">{t.pdfError}</p>
+                            <button
+                                onClick={onSkip}
+                                className="px-6 py-3 rounded-xl bg-black text-white font-medium text-sm"
+                            >
+                                {t.close}
+                            </button>
+                        </div>
+                    )}
+                </div>
+            </motion.div>
+        </motion.div>
+    );
+}
@@ -1,94 +1,63 @@
 /**
  * PhoneUploadModal — QR code modal shown on the PC.
- * Creates a PeerJS peer, generates a QR code URL, and receives files from the phone.
+ * A view onto the phone session that App keeps running: shows the QR code
+ * for phones to pair with, and each paired phone's confirmation code and
+ * transfer progress. Closing the modal leaves the session open so phones
+ * can keep sending.
  */
 
-import React, { useState, useEffect, useRef } from 'react';
-import Peer from 'peerjs';
-import type { DataConnection } from 'peerjs';
+import React, { useEffect } from 'react';
 import { QRCodeSVG } from 'qrcode.react';
-import { X, Smartphone, Wifi, Loader2, CheckCircle2 } from 'lucide-react';
-import { motion, AnimatePresence } from 'motion/react';
+import { X, Smartphone, Wifi, Loader2, ShieldCheck, RefreshCw, Unplug, Network, Lock } from 'lucide-react';
+import { motion } from 'motion/react';
+import { lanAddresses } from './lanAddresses';
+import { plural } from './i18n';
+import type { Lang, Messages } from './i18n';
+import { formatMegabytes } from './transfer';
+import { deviceColor } from './usePhoneSession';
+import type { PhoneDevice, PhoneSession } from './usePhoneSession';
 
 interface PhoneUploadModalProps {
+    session: PhoneSession;
+    autoExtract: boolean;
+    onAutoExtractChange: (value: boolean) => void;
     onClose: () => void;
-    onFilesReceived: (files: File[]) => void;
-    t: Record<string, string>;
+    lang: Lang;
+    t: Messages;
 }
 
-type ModalStatus = 'initializing' | 'waiting' | 'connected' | 'receiving' | 'done' | 'error';
-
-export default function PhoneUploadModal({ onClose, onFilesReceived, t }: PhoneUploadModalProps) {
-    const [status, setStatus] = useState<ModalStatus>('initializing');
-    const [qrUrl, setQrUrl] = useState('');
-    const [receivedCount, setReceivedCount] = useState(0);
-    const [totalCount, setTotalCount] = useState(0);
-    const peerRef = useRef<Peer | null>(null);
-    const receivedFilesRef = useRef<File[]>([]);
+export default function PhoneUploadModal({ session, autoExtract, onAutoExtractChange, onClose, lang, t }: PhoneUploadModalProps) {
+    const { status, qrUrl, host, setHost, devices, start, renew, stop } = session;
+    const hasDevices = devices.length > 0;
+    // The page's own host may not be one of the listed interfaces
+    const hostOptions = lanAddresses.some(entry => entry.address === host)
+        ? lanAddresses
+        : [{ name: '', address: host, virtual: false }, ...lanAddresses];
 
+    // Opening the modal starts a session, or shows the one already running
     useEffect(() => {
-        const peer = new Peer();
-        peerRef.current = peer;
-
-        peer.on('open', (id) => {
-            // Use the injected LAN IP so the phone can reach the PC
-            const localIP = (process.env.LOCAL_IP as string) || window.location.hostname;
-            const hostname = (window.location.hostname === 'localhost' || window.location.hostname === '127.0.0.1')
-                ? localIP
-                : window.location.hostname;
-            const port = window.location.port ? `:${window.location.port}` : '';
-            const baseUrl = `${window.location.protocol}//${hostname}${port}`;
-            const url = `${baseUrl}?mode=upload&peer=${id}`;
-            setQrUrl(url);
-            setStatus('waiting');
-        });
-
-        peer.on('connection', (conn: DataConnection) => {
-            setStatus('connected');
-
-            conn.on('data', (data: unknown) => {
-                const payload = data as {
-                    type: string;
-                    name?: string;
-                    mimeType?: string;
-                    data?: ArrayBuffer;
-                    index?: number;
-                    total?: number;
-                };
-
-                if (payload.type === 'file' && payload.data && payload.name && payload.mimeType) {
-                    const blob = new Blob([payload.data], { type: payload.mimeType });
-                    const file = new File([blob], payload.name, { type: payload.mimeType });
-                    receivedFilesRef.current.push(file);
-
-                    setTotalCount(payload.total || 0);
-                    setReceivedCount(receivedFilesRef.current.length);
-                    setStatus('receiving');
-                }
-
-                if (payload.type === 'done') {
-                    setStatus('done');
-                    onFilesReceived(receivedFilesRef.current);
-                }
-            });
+        start();
+    }, [start]);
 
-            conn.on('close', () => {
-                // If files were received, treat as done
-                if (receivedFilesRef.current.length > 0) {
-                    setStatus('done');
-                    onFilesReceived(receivedFilesRef.current);
-                }
-            });
-        });
+    const handleDisconnect = () => {
+        stop();
+        onClose();
+    };
 
-        peer.on('error', () => {
-            setStatus('error');
-        });
-
-        return () => {
-            peer.destroy();
-        };
-    }, [onFilesReceived]);
+    const deviceDetail = (device: PhoneDevice) => {
+        switch (device.status) {
+            case 'receiving':
+                return t.receivingPhotos;
+            case 'reconnecting':
+                return t.phoneReconnecting;
+            case 'offline':
+                return t.phoneOffline;
+            default:
+                return device.receivedCount > 0
+                    ? plural(lang, t.photosAdded, device.receivedCount)
+                    : t.waitingForPhotos;
+        }
+    };
 
     return (
         <motion.div
@@ -103,13 +72,13 @@ export default function PhoneUploadModal({ onClose, onFilesReceived, t }: PhoneU
                 animate={{ opacity: 1, scale: 1, y: 0 }}
                 exit={{ opacity: 0, scale: 0.9, y: 20 }}
                 transition={{ type: 'spring', duration: 0.5 }}
-                className="bg-white rounded-3xl shadow-2xl w-full max-w-sm overflow-hidden"
+                className="bg-white rounded-3xl shadow-2xl w-full max-w-sm max-h-[90vh] flex flex-col overflow-hidden"
             >
                 {/* Header */}
                 <div className="flex items-center justify-between p-5 border-b border-black/5">
                     <h2 className="font-semibold flex items-center gap-2">
                         <Smartphone className="w-5 h-5" />
-                        {t.uploadFromPhone || 'Upload from Phone'}
+                        {t.uploadFromPhone}
                     </h2>
                     <button
                         onClick={onClose}
@@ -120,13 +89,60 @@ export default function PhoneUploadModal({ onClose, onFilesReceived, t }: PhoneU
                 </div>
 
                 {/* Body */}
-                <div className="p-6 text-center">
+                <div className="p-6 text-center overflow-y-auto">
 
                     {/* Initializing */}
-                    {status === 'initializing' && (
+                    {(status === 'initializing' || status === 'idle') && (
                         <div className="py-8">
                             <Loader2 className="w-8 h-8 animate-spin mx-auto text-black/40 mb-3" />
-                            <p className="text-sm text-[#666]">{t.phoneInitializing || 'Setting up connection…'}</p>
+                            <p className="text-sm text-[#666]">{t.phoneInitializing}</p>
+                        </div>
+                    )}
+
+                    {/* Paired phones, each with its own code and progress */}
+                    {hasDevices && (status === 'waiting' || status === 'expired') && (
+                        <div className="text-start mb-6">
+                            <p className="text-sm font-semibold mb-1">{t.connectedPhones}</p>
+                            <p className="text-xs text-[#999] mb-3">{t.pairingCodeHint}</p>
+                            <div className="space-y-2">
+                                {devices.map(device => (
+                                    <div key={device.id} className={`p-3 rounded-2xl bg-[#FAFAFA] border border-black/5 ${device.status === 'offline' ? 'opacity-60' : ''}`}>
+                                        <div className="flex items-center justify-between gap-3">
+                                            <span className="flex items-center gap-2 min-w-0 text-sm font-medium">
+                                                <span className={`w-2.5 h-2.5 rounded-full flex-shrink-0 ${deviceColor(device.label)}`} />
+                                                <span className="truncate">{device.label}</span>
+                                            </span>
+                                            <span
+                                                title={t.pairingCode}
+                                                className="inline-flex items-center gap-1 text-xs text-emerald-700 flex-shrink-0"
+                                            >
+                                                <ShieldCheck className="w-3.5 h-3.5" />
+                                                <span className="font-mono font-semibold tracking-wider">{device.code}</span>
+                                            </span>
+                                        </div>
+                                        <p className="mt-1 text-xs text-[#666] flex items-center gap-1.5">
+                                            {(device.status === 'receiving' || device.status === 'reconnecting') && <Loader2 className="w-3 h-3 animate-spin" />}
+                                            {deviceDetail(device)}
+                                        </p>
+                                        {/* Receiving, or waiting for the phone to come back mid-batch */}
+                                        {device.progress && (device.status === 'receiving' || device.status === 'reconnecting') && (
+                                            <>
+                                                <div className="w-full h-1.5 bg-black/5 rounded-full overflow-hidden mt-2 mb-1">
+                                                    <div
+                                                        className="h-full bg-black rounded-full transition-all duration-300"
+                                                        style={{ width: `${device.progress.totalBytes > 0 ? (device.progress.bytes / device.progress.totalBytes) * 100 : 0}%` }}
+                                                    />
+                                                </div>
+                                                <p className="text-[11px] text-[#999] tabular-nums">
+                                                    {device.progress.fileIndex + 1} / {device.progress.fileCount}
+                                                    {' · '}
+                                                    {formatMegabytes(device.progress.bytes)} / {formatMegabytes(device.progress.totalBytes)} MB
+                                                </p>
+                                            </>
+                                        )}
+                                    </div>
+                                ))}
+                            </div>
                         </div>
                     )}
 
@@ -134,79 +150,110 @@ export default function PhoneUploadModal({ onClose, onFilesReceived, t }: PhoneU
                     {status === 'waiting' && (
                         <>
                             <p className="text-sm text-[#666] mb-5">
-                                {t.scanQR || 'Scan this QR code with your phone to send photos'}
+                                {hasDevices ? t.addAnotherPhone : t.scanQR}
                             </p>
                             <div className="inline-block p-4 bg-white rounded-2xl border-2 border-black/5 shadow-sm mb-5">
                                 <QRCodeSVG
                                     value={qrUrl}
-                                    size={200}
+                                    size={hasDevices ? 140 : 200}
                                     level="M"
                                     includeMargin={false}
                                 />
                             </div>
                             <div className="flex items-center justify-center gap-2 text-xs text-[#999] mb-3">
                                 <Wifi className="w-3.5 h-3.5" />
-                                {t.sameWifi || 'Both devices must be on the same WiFi network'}
+                                {t.sameWifi}
                             </div>
+                            {/* The first guess can be a Docker or VPN bridge; let the user pick */}
+                            {hostOptions.length > 1 && (
+                                <label className="flex items-center justify-center gap-2 text-xs text-[#666] mb-3">
+                                    <Network className="w-3.5 h-3.5 flex-shrink-0" />
+                                    {t.networkAddress}
+                                    <select
+                                        value={host}
+                                        onChange={(e) => setHost(e.target.value)}
+                                        className="max-w-[200px] px-2 py-1 rounded-lg bg-[#F5F5F5] border border-black/5 text-xs font-mono text-[#333] focus:outline-none"
+                                    >
+                                        {hostOptions.map(entry => (
+                                            <option key={entry.address} value={entry.address}>
+                                                {entry.address}
+                                                {entry.name && ` (${entry.name}${entry.virtual ? `, ${t.virtualInterface}` : ''})`}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </label>
+                            )}
+                            {/* Phones only allow the camera and clipboard on secure pages */}
+                            {window.location.protocol !== 'https:' && (
+                                <div className="flex items-center justify-center gap-2 text-xs text-amber-700 mb-3">
+                                    <Lock className="w-3.5 h-3.5 flex-shrink-0" />
+                                    {t.httpsHint}
+                                </div>
+                            )}
                             {/* Show the URL for manual entry */}
                             <div className="mt-2 p-3 bg-[#F5F5F5] rounded-xl">
-                                <p className="text-xs text-[#999] mb-1">{t.orTypeUrl || 'Or type this URL on your phone:'}</p>
+                                <p className="text-xs text-[#999] mb-1">{t.orTypeUrl}</p>
                                 <p className="text-xs font-mono text-[#333] select-all break-all">{qrUrl}</p>
                             </div>
                         </>
                     )}
 
-                    {/* Connected */}
-                    {status === 'connected' && (
-                        <div className="py-8">
-                            <CheckCircle2 className="w-12 h-12 text-emerald-500 mx-auto mb-3" />
-                            <p className="font-semibold mb-1">{t.phoneConnected || 'Phone connected!'}</p>
-                            <p className="text-sm text-[#666]">{t.waitingForPhotos || 'Waiting for photos…'}</p>
-                        </div>
-                    )}
-
-                    {/* Receiving */}
-                    {status === 'receiving' && (
-                        <div className="py-6">
-                            <Loader2 className="w-10 h-10 animate-spin mx-auto text-black/60 mb-3" />
-                            <p className="font-semibold mb-2">{t.receivingPhotos || 'Receiving photos…'}</p>
-                            <div className="w-full h-2.5 bg-black/5 rounded-full overflow-hidden mb-2">
-                                <div
-                                    className="h-full bg-black rounded-full transition-all duration-300"
-                                    style={{ width: `${totalCount > 0 ? (receivedCount / totalCount) * 100 : 0}%` }}
-                                />
-                            </div>
-                            <p className="text-sm text-[#666] tabular-nums">{receivedCount} / {totalCount}</p>
+                    {/* Expired QR code; phones already paired keep working */}
+                    {status === 'expired' && (
+                        <div className={hasDevices ? 'py-2' : 'py-8'}>
+                            <p className="font-semibold mb-1">{t.qrExpired}</p>
+                            <p className="text-sm text-[#666] mb-4">{t.qrExpiredDetail}</p>
+                            <button
+                                onClick={renew}
+                                className="inline-flex items-center gap-2 px-6 py-3 rounded-xl bg-black text-white font-medium text-sm hover:scale-[1.02] active:scale-[0.98] transition-all"
+                            >
+                                <RefreshCw className="w-4 h-4" />
+                                {t.newQrCode}
+                            </button>
                         </div>
                     )}
 
-                    {/* Done */}
-                    {status === 'done' && (
-                        <div className="py-6">
-                            <CheckCircle2 className="w-14 h-14 text-emerald-500 mx-auto mb-3" />
-                            <p className="font-semibold mb-1">{t.photosReceived || 'Photos received!'}</p>
-                            <p className="text-sm text-[#666] mb-4">
-                                {receivedFilesRef.current.length} {t.photosAdded || 'photos added to SnapConvert'}
-                            </p>
+                    {/* Session options, once a phone is paired */}
+                    {hasDevices && (status === 'waiting' || status === 'expired') && (
+                        <>
                             <button
                                 onClick={onClose}
-                                className="px-6 py-3 rounded-xl bg-black text-white font-medium text-sm hover:scale-[1.02] active:scale-[0.98] transition-all"
+                                className="mt-6 px-6 py-3 rounded-xl bg-black text-white font-medium text-sm hover:scale-[1.02] active:scale-[0.98] transition-all"
                             >
-                                {t.doneContinue || 'Continue'}
+                                {t.doneContinue}
                             </button>
-                        </div>
+                            <p className="text-xs text-[#999] mt-3">{t.phoneKeepsSending}</p>
+                            <div className="mt-4 pt-4 border-t border-black/5 flex items-center justify-between gap-3 text-start">
+                                <label className="flex items-center gap-2 text-xs text-[#666] cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={autoExtract}
+                                        onChange={(e) => onAutoExtractChange(e.target.checked)}
+                                        className="accent-black"
+                                    />
+                                    {t.autoExtractPhone}
+                                </label>
+                                <button
+                                    onClick={handleDisconnect}
+                                    className="inline-flex items-center gap-1.5 text-xs font-medium text-red-600 hover:text-red-700 flex-shrink-0"
+                                >
+                                    <Unplug className="w-3.5 h-3.5" />
+                                    {t.disconnectPhone}
+                                </button>
+                            </div>
+                        </>
                     )}
 
                     {/* Error */}
                     {status === 'error' && (
                         <div className="py-6">
-                            <p className="font-semibold text-red-600 mb-2">{t.phoneError || 'Connection error'}</p>
-                            <p className="text-sm text-[#666] mb-4">{t.phoneErrorDetail || 'Please close and try again.'}</p>
+                            <p className="font-semibold text-red-600 mb-2">{t.phoneError}</p>
+                            <p className="text-sm text-[#666] mb-4">{t.phoneErrorDetail}</p>
                             <button
                                 onClick={onClose}
                                 className="px-6 py-3 rounded-xl bg-black text-white font-medium text-sm"
                             >
-                                {t.close || 'Close'}
+                                {t.close}
                             </button>
                         </div>
                     )}
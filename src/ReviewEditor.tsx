@@ -0,0 +1,286 @@
+/**
+ * ReviewEditor — shows each source image next to its extracted blocks so the
+ * text, block types and alignment can be corrected before the document is
+ * generated. Blocks can also be split, merged, deleted or added.
+ */
+
+import React, { useRef, useState } from 'react';
+import {
+    ArrowLeft,
+    FileText,
+    Merge,
+    PencilLine,
+    Plus,
+    Scissors,
+    TextAlignCenter,
+    TextAlignEnd,
+    TextAlignStart,
+    Trash2,
+} from 'lucide-react';
+import { motion } from 'motion/react';
+import type { Messages, TextKey } from './i18n';
+import type { Alignment, BlockType, TextBlock } from './types';
+import { headingLevel, listLevel, mergeBlocks, setBlockText, setBlockType, splitBlock } from './blocks';
+
+interface ReviewEditorProps {
+    previews: string[];
+    pages: TextBlock[][];
+    onChange: (pages: TextBlock[][]) => void;
+    onGenerate: () => void;
+    onDiscard: () => void;
+    generateLabel: string;
+    t: Messages;
+}
+
+const BLOCK_TYPE_OPTIONS: { type: BlockType; labelKey: TextKey }[] = [
+    { type: 'heading', labelKey: 'blockHeading' },
+    { type: 'body', labelKey: 'blockBody' },
+    { type: 'bullet', labelKey: 'blockBullet' },
+    { type: 'numbered', labelKey: 'blockNumbered' },
+    { type: 'caption', labelKey: 'blockCaption' },
+    { type: 'table', labelKey: 'blockTable' },
+];
+
+const ALIGNMENT_OPTIONS: { alignment: Alignment; icon: typeof TextAlignStart; labelKey: TextKey }[] = [
+    { alignment: 'left', icon: TextAlignStart, labelKey: 'alignLeft' },
+    { alignment: 'center', icon: TextAlignCenter, labelKey: 'alignCenter' },
+    { alignment: 'right', icon: TextAlignEnd, labelKey: 'alignRight' },
+];
+
+const blockKey = (page: number, index: number) => `${page}:${index}`;
+
+export default function ReviewEditor({ previews, pages, onChange, onGenerate, onDiscard, generateLabel, t }: ReviewEditorProps) {
+    // Block whose source region is highlighted on the image
+    const [activeBlock, setActiveBlock] = useState<string | null>(null);
+    // Last caret position per block, used by "split at cursor"
+    const caretRef = useRef(new Map<string, number>());
+
+    const updatePage = (pageIndex: number, blocks: TextBlock[]) => {
+        onChange(pages.map((page, i) => (i === pageIndex ? blocks : page)));
+    };
+
+    const updateBlock = (pageIndex: number, index: number, block: TextBlock) => {
+        updatePage(pageIndex, pages[pageIndex].map((b, i) => (i === index ? block : b)));
+    };
+
+    const handleSplit = (pageIndex: number, index: number) => {
+        const block = pages[pageIndex][index];
+        const at = caretRef.current.get(blockKey(pageIndex, index)) ?? block.text.length;
+        const blocks = [...pages[pageIndex]];
+        blocks.splice(index, 1, ...splitBlock(block, at));
+        updatePage(pageIndex, blocks);
+    };
+
+    const handleMerge = (pageIndex: number, index: number) => {
+        const blocks = [...pages[pageIndex]];
+        blocks.splice(index, 2, mergeBlocks(blocks[index], blocks[index + 1]));
+        updatePage(pageIndex, blocks);
+    };
+
+    const handleDelete = (pageIndex: number, index: number) => {
+        updatePage(pageIndex, pages[pageIndex].filter((_, i) => i !== index));
+        setActiveBlock(null);
+    };
+
+    const handleAdd = (pageIndex: number) => {
+        updatePage(pageIndex, [...pages[pageIndex], { text: '', alignment: 'left', type: 'body' }]);
+    };
+
+    const rememberCaret = (key: string) => (e: React.SyntheticEvent<HTMLTextAreaElement>) => {
+        caretRef.current.set(key, e.currentTarget.selectionStart);
+    };
+
+    // Tables are edited as tab-separated text, so let Tab insert a tab there.
+    const handleTableTab = (pageIndex: number, index: number) => (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+        if (e.key !== 'Tab' || e.shiftKey) return;
+        e.preventDefault();
+        const textarea = e.currentTarget;
+        const { selectionStart, selectionEnd, value } = textarea;
+        const text = `${value.slice(0, selectionStart)}\t${value.slice(selectionEnd)}`;
+        updateBlock(pageIndex, index, setBlockText(pages[pageIndex][index], text));
+        requestAnimationFrame(() => textarea.setSelectionRange(selectionStart + 1, selectionStart + 1));
+    };
+
+    return (
+        <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            className="space-y-6"
+        >
+            {/* Header */}
+            <div className="bg-white rounded-3xl shadow-sm border border-black/5 p-5 flex flex-col sm:flex-row sm:items-center gap-4">
+                <div className="flex-1 min-w-0">
+                    <h2 className="font-semibold flex items-center gap-2">
+                        <PencilLine className="w-5 h-5" />
+                        {t.reviewTitle}
+                    </h2>
+                    <p className="text-sm text-[#666] mt-1">{t.reviewHint}</p>
+                </div>
+                <div className="flex gap-2 flex-shrink-0">
+                    <button
+                        onClick={onDiscard}
+                        className="inline-flex items-center gap-2 px-4 py-3 rounded-xl bg-black/5 hover:bg-black/10 transition-colors text-sm font-medium"
+                    >
+                        <ArrowLeft className="w-4 h-4 rtl:-scale-x-100" />
+                        {t.discardReview}
+                    </button>
+                    <button
+                        onClick={onGenerate}
+                        className="inline-flex items-center gap-2 px-5 py-3 rounded-xl bg-black text-white font-medium text-sm hover:scale-[1.02] active:scale-[0.98] transition-all shadow-lg hover:shadow-xl"
+                    >
+                        <FileText className="w-4 h-4" />
+                        {generateLabel}
+                    </button>
+                </div>
+            </div>
+
+            {pages.map((blocks, pageIndex) => {
+                const active = activeBlock?.startsWith(`${pageIndex}:`)
+                    ? blocks[Number(activeBlock.split(':')[1])]
+                    : undefined;
+
+                return (
+                    <section key={pageIndex} className="bg-white rounded-3xl shadow-sm border border-black/5 overflow-hidden">
+                        <div className="px-5 py-3 bg-[#FAFAFA] border-b border-black/5 text-sm font-medium">
+                            {t.reviewPage} {pageIndex + 1} {t.of} {pages.length}
+                        </div>
+                        <div className="grid md:grid-cols-2 gap-5 p-5">
+                            {/* Source image with the active block's region outlined */}
+                            <div className="relative self-start md:sticky md:top-4 rounded-2xl overflow-hidden bg-[#F5F5F5] border border-black/5">
+                                <img src={previews[pageIndex]} alt={`${t.reviewPage} ${pageIndex + 1}`} className="w-full h-auto block" />
+                                {active?.box && (
+                                    <div
+                                        className="absolute border-2 border-blue-500 bg-blue-500/10 rounded pointer-events-none transition-all"
+                                        style={{
+                                            top: `${active.box[0] / 10}%`,
+                                            left: `${active.box[1] / 10}%`,
+                                            height: `${(active.box[2] - active.box[0]) / 10}%`,
+                                            width: `${(active.box[3] - active.box[1]) / 10}%`,
+                                        }}
+                                    />
+                                )}
+                            </div>
+
+                            {/* Blocks */}
+                            <div className="space-y-3">
+                                {blocks.length === 0 && (
+                                    <p className="text-sm text-[#999] py-4 text-center">{t.noBlocks}</p>
+                                )}
+                                {blocks.map((block, index) => {
+                                    const key = blockKey(pageIndex, index);
+                                    const type = block.type ?? 'body';
+                                    const isList = type === 'bullet' || type === 'numbered';
+
+                                    return (
+                                        <div
+                                            key={key}
+                                            onMouseEnter={() => setActiveBlock(key)}
+                                            onFocus={() => setActiveBlock(key)}
+                                            className={`rounded-2xl border p-3 transition-colors ${activeBlock === key ? 'border-black/30' : 'border-black/10'}`}
+                                        >
+                                            <div className="flex flex-wrap items-center gap-2 mb-2">
+                                                <select
+                                                    value={type}
+                                                    onChange={(e) => updateBlock(pageIndex, index, setBlockType(block, e.target.value as BlockType))}
+                                                    aria-label={t.blockType}
+                                                    className="px-2 py-1.5 rounded-lg bg-black/5 text-xs font-medium focus:outline-none"
+                                                >
+                                                    {BLOCK_TYPE_OPTIONS.map(option => (
+                                                        <option key={option.type} value={option.type}>{t[option.labelKey]}</option>
+                                                    ))}
+                                                </select>
+
+                                                {(type === 'heading' || isList) && (
+                                                    <select
+                                                        value={type === 'heading' ? headingLevel(block) : listLevel(block)}
+                                                        onChange={(e) => updateBlock(pageIndex, index, { ...block, level: Number(e.target.value) })}
+                                                        aria-label={t.blockLevel}
+                                                        className="px-2 py-1.5 rounded-lg bg-black/5 text-xs font-medium focus:outline-none"
+                                                    >
+                                                        {(type === 'heading' ? [1, 2, 3, 4, 5, 6] : [0, 1, 2, 3, 4, 5, 6, 7, 8]).map(level => (
+                                                            <option key={level} value={level}>
+                                                                {type === 'heading' ? `H${level}` : `${t.blockLevel} ${level + 1}`}
+                                                            </option>
+                                                        ))}
+                                                    </select>
+                                                )}
+
+                                                <div className="inline-flex rounded-lg bg-black/5 p-0.5">
+                                                    {ALIGNMENT_OPTIONS.map(({ alignment, icon: Icon, labelKey }) => (
+                                                        <button
+                                                            key={alignment}
+                                                            onClick={() => updateBlock(pageIndex, index, { ...block, alignment })}
+                                                            title={t[labelKey]}
+                                                            aria-label={t[labelKey]}
+                                                            aria-pressed={block.alignment === alignment}
+                                                            className={`w-7 h-7 rounded-md flex items-center justify-center transition-colors ${block.alignment === alignment ? 'bg-white shadow-sm text-black' : 'text-[#999] hover:text-black'}`}
+                                                        >
+                                                            <Icon className="w-3.5 h-3.5" />
+                                                        </button>
+                                                    ))}
+                                                </div>
+
+                                                <div className="ms-auto flex items-center gap-1">
+                                                    <button
+                                                        onClick={() => handleSplit(pageIndex, index)}
+                                                        title={t.splitBlock}
+                                                        aria-label={t.splitBlock}
+                                                        className="w-7 h-7 rounded-md flex items-center justify-center text-[#999] hover:text-black hover:bg-black/5 transition-colors"
+                                                    >
+                                                        <Scissors className="w-3.5 h-3.5" />
+                                                    </button>
+                                                    <button
+                                                        onClick={() => handleMerge(pageIndex, index)}
+                                                        disabled={index === blocks.length - 1}
+                                                        title={t.mergeBlock}
+                                                        aria-label={t.mergeBlock}
+                                                        className="w-7 h-7 rounded-md flex items-center justify-center text-[#999] hover:text-black hover:bg-black/5 disabled:opacity-30 disabled:pointer-events-none transition-colors"
+                                                    >
+                                                        <Merge className="w-3.5 h-3.5" />
+                                                    </button>
+                                                    <button
+                                                        onClick={() => handleDelete(pageIndex, index)}
+                                                        title={t.deleteBlock}
+                                                        aria-label={t.deleteBlock}
+                                                        className="w-7 h-7 rounded-md flex items-center justify-center text-[#999] hover:text-red-600 hover:bg-red-50 transition-colors"
+                                                    >
+                                                        <Trash2 className="w-3.5 h-3.5" />
+                                                    </button>
+                                                </div>
+                                            </div>
+
+                                            <textarea
+                                                value={block.text}
+                                                onChange={(e) => updateBlock(pageIndex, index, setBlockText(block, e.target.value))}
+                                                onSelect={rememberCaret(key)}
+                                                onKeyDown={type === 'table' ? handleTableTab(pageIndex, index) : undefined}
+                                                rows={Math.min(block.text.split('\n').length + 1, 12)}
+                                                dir={block.direction ?? 'auto'}
+                                                style={{ textAlign: block.alignment }}
+                                                className={`w-full px-3 py-2 rounded-xl bg-[#FAFAFA] border border-black/5 focus:outline-none focus:border-black/20 resize-y text-sm leading-relaxed
+                                                    ${type === 'heading' ? 'font-semibold' : ''}
+                                                    ${type === 'caption' ? 'italic text-[#666]' : ''}
+                                                    ${type === 'table' ? 'font-mono whitespace-pre' : ''}`}
+                                            />
+                                            {type === 'table' && (
+                                                <p className="text-xs text-[#999] mt-1">{t.tableHint}</p>
+                                            )}
+                                        </div>
+                                    );
+                                })}
+
+                                <button
+                                    onClick={() => handleAdd(pageIndex)}
+                                    className="w-full inline-flex items-center justify-center gap-2 px-3 py-2.5 rounded-2xl border-2 border-dashed border-black/10 hover:border-black/30 text-sm font-medium text-[#666] hover:text-black transition-colors"
+                                >
+                                    <Plus className="w-4 h-4" />
+                                    {t.addBlock}
+                                </button>
+                            </div>
+                        </div>
+                    </section>
+                );
+            })}
+        </motion.div>
+    );
+}
@@ -0,0 +1,65 @@
+/**
+ * Client for the SnapConvert server's /api routes.
+ */
+
+import { DEFAULT_RETRY, isRetryableStatus, withRetry } from './concurrency';
+
+export class ApiError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+/** Rate limiting, server errors and network failures (fetch throws TypeError). */
+export const isTransientError = (error: unknown) =>
+  error instanceof ApiError ? isRetryableStatus(error.status) : error instanceof TypeError;
+
+export const retryTransient = <T>(fn: () => Promise<T>, signal?: AbortSignal) =>
+  withRetry(fn, { ...DEFAULT_RETRY, isRetryable: isTransientError, signal });
+
+export const postJson = async <T>(path: string, body: unknown, signal?: AbortSignal): Promise<T> => {
+  const response = await fetch(`/api${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal,
+  });
+  const payload = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new ApiError(payload.error || response.statusText, response.status);
+  }
+  return payload as T;
+};
+
+export const getJson = async <T>(path: string, signal?: AbortSignal): Promise<T> => {
+  const response = await fetch(`/api${path}`, { signal });
+  const payload = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new ApiError(payload.error || response.statusText, response.status);
+  }
+  return payload as T;
+};
+
+export const putBlob = async (path: string, blob: Blob, signal?: AbortSignal): Promise<void> => {
+  const response = await fetch(`/api${path}`, {
+    method: 'PUT',
+    headers: { 'Content-Type': blob.type },
+    body: blob,
+    signal,
+  });
+  if (!response.ok) {
+    const payload = await response.json().catch(() => ({}));
+    throw new ApiError(payload.error || response.statusText, response.status);
+  }
+};
+
+export const getBlob = async (path: string): Promise<Blob> => {
+  const response = await fetch(`/api${path}`);
+  if (!response.ok) throw new ApiError(response.statusText, response.status);
+  return response.blob();
+};
+
+export const deleteResource = async (path: string): Promise<void> => {
+  await fetch(`/api${path}`, { method: 'DELETE' });
+};
@@ -0,0 +1,270 @@
+/**
+ * Helpers for the extracted block model: sanitising model output and
+ * reading blocks back with sensible defaults.
+ */
+
+import type {
+  Alignment,
+  BlockType,
+  BoundingBox,
+  Direction,
+  InlineRun,
+  TableCell,
+  TableData,
+  TextBlock,
+} from './types';
+
+const ALIGNMENTS: Alignment[] = ['left', 'center', 'right'];
+const BLOCK_TYPES: BlockType[] = ['heading', 'bullet', 'numbered', 'body', 'caption', 'table'];
+const DIRECTIONS: Direction[] = ['ltr', 'rtl'];
+
+const LETTER = /\p{L}/u;
+// Hebrew, Arabic, Syriac, Thaana, N'Ko and their presentation forms
+const RTL_SCRIPT = /[\u0590-\u08FF\uFB1D-\uFDFF\uFE70-\uFEFC]/;
+
+/**
+ * Direction of a text from its first letter, the way browsers resolve
+ * dir="auto". Text without letters counts as left-to-right.
+ */
+export const textDirection = (text: string): Direction => {
+  for (const char of text) {
+    if (LETTER.test(char)) return RTL_SCRIPT.test(char) ? 'rtl' : 'ltr';
+  }
+  return 'ltr';
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const toRuns = (value: unknown): InlineRun[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const runs = value
+    .filter(isRecord)
+    .filter(r => typeof r.text === 'string' && r.text.length > 0)
+    .map(r => ({
+      text: r.text as string,
+      ...(r.bold === true && { bold: true }),
+      ...(r.italic === true && { italic: true }),
+      ...(r.underline === true && { underline: true }),
+    }));
+  return runs.length > 0 ? runs : undefined;
+};
+
+const toBox = (value: unknown): BoundingBox | undefined => {
+  if (!Array.isArray(value) || value.length !== 4) return undefined;
+  if (!value.every(n => typeof n === 'number' && Number.isFinite(n))) return undefined;
+  const [ymin, xmin, ymax, xmax] = value as number[];
+  if (ymax <= ymin || xmax <= xmin) return undefined;
+  return [ymin, xmin, ymax, xmax];
+};
+
+const toSpan = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isFinite(value) && value > 1 ? Math.round(value) : undefined;
+
+const toTable = (value: unknown): TableData | undefined => {
+  if (!isRecord(value) || !Array.isArray(value.rows)) return undefined;
+
+  const rows = value.rows
+    .filter(Array.isArray)
+    .map(row => (row as unknown[]).filter(isRecord).map((cell): TableCell => {
+      const runs = toRuns(cell.runs);
+      const result: TableCell = {
+        text: typeof cell.text === 'string' ? cell.text : runs?.map(r => r.text).join('') ?? '',
+      };
+      if (runs) result.runs = runs;
+      if (ALIGNMENTS.includes(cell.alignment as Alignment)) result.alignment = cell.alignment as Alignment;
+      const rowSpan = toSpan(cell.rowSpan);
+      const colSpan = toSpan(cell.colSpan);
+      if (rowSpan) result.rowSpan = rowSpan;
+      if (colSpan) result.colSpan = colSpan;
+      return result;
+    }))
+    .filter(row => row.length > 0);
+  if (rows.length === 0) return undefined;
+
+  const table: TableData = { rows };
+  if (typeof value.headerRows === 'number' && value.headerRows > 0) {
+    table.headerRows = Math.min(Math.round(value.headerRows), rows.length);
+  }
+  return table;
+};
+
+/**
+ * Expand a table into a rectangular grid of cell texts. Positions covered by
+ * a row or column span are filled with empty strings.
+ */
+export const tableGrid = (table: TableData): string[][] => {
+  const grid: (string | undefined)[][] = table.rows.map(() => []);
+
+  table.rows.forEach((row, r) => {
+    let c = 0;
+    row.forEach(cell => {
+      while (grid[r][c] !== undefined) c++;
+      const rowSpan = cell.rowSpan ?? 1;
+      const colSpan = cell.colSpan ?? 1;
+      for (let dr = 0; dr < rowSpan && r + dr < grid.length; dr++) {
+        for (let dc = 0; dc < colSpan; dc++) {
+          grid[r + dr][c + dc] = dr === 0 && dc === 0 ? cell.text : '';
+        }
+      }
+      c += colSpan;
+    });
+  });
+
+  const width = Math.max(...grid.map(row => row.length));
+  return grid.map(row => Array.from({ length: width }, (_, c) => row[c] ?? ''));
+};
+
+/** Tab-separated rendering of a table, one line per row. */
+export const tableToTsv = (table: TableData): string =>
+  tableGrid(table)
+    .map(row => row.map(cell => cell.replace(/\s*\n\s*|\t/g, ' ')).join('\t'))
+    .join('\n');
+
+/**
+ * Coerce whatever the model returned for one image into well-formed blocks.
+ * Unknown fields are dropped, invalid enums fall back to defaults and a
+ * missing `text` is rebuilt from the runs.
+ */
+export const normalizeBlocks = (raw: unknown): TextBlock[] => {
+  if (!Array.isArray(raw)) return [];
+
+  return raw.filter(isRecord).flatMap((item): TextBlock[] => {
+    const runs = toRuns(item.runs);
+    const table = item.type === 'table' ? toTable(item.table) : undefined;
+    const text = table
+      ? tableToTsv(table)
+      : typeof item.text === 'string' ? item.text : runs?.map(r => r.text).join('') ?? '';
+    if (!text.trim()) return [];
+
+    // Trust the model's direction, else read it off the text
+    const direction = DIRECTIONS.includes(item.direction as Direction)
+      ? item.direction as Direction
+      : textDirection(text);
+    const alignment = ALIGNMENTS.includes(item.alignment as Alignment)
+      ? item.alignment as Alignment
+      : direction === 'rtl' ? 'right' : 'left';
+    // A table without usable rows degrades to a body paragraph of its text.
+    const type = item.type === 'table' && !table
+      ? 'body'
+      : BLOCK_TYPES.includes(item.type as BlockType) ? item.type as BlockType : 'body';
+    const block: TextBlock = { text, alignment, direction, type };
+    if (table) block.table = table;
+
+    if (typeof item.level === 'number' && Number.isFinite(item.level)) {
+      block.level = type === 'heading'
+        ? Math.min(Math.max(Math.round(item.level), 1), 6)
+        : Math.min(Math.max(Math.round(item.level), 0), 8);
+    }
+    if (runs) block.runs = runs;
+    if (typeof item.fontSize === 'number' && item.fontSize > 0) block.fontSize = item.fontSize;
+    const box = toBox(item.box);
+    if (box) block.box = box;
+
+    return [block];
+  });
+};
+
+/** The block's runs, or a single unstyled run covering its text. */
+export const blockRuns = (block: TextBlock): InlineRun[] =>
+  block.runs && block.runs.length > 0 ? block.runs : [{ text: block.text }];
+
+export const headingLevel = (block: TextBlock): number => block.level ?? 1;
+
+export const listLevel = (block: TextBlock): number => block.level ?? 0;
+
+/** Blocks added during review have no reported direction, so go by the text. */
+export const blockDirection = (block: TextBlock): Direction => block.direction ?? textDirection(block.text);
+
+// ── Editing ──────────────────────────────────────────────────────────────
+// Used by the review step. Each helper returns new blocks and leaves the
+// input untouched so edits can go straight into React state.
+
+/** Parse tab-separated text back into a table; spans are not recoverable. */
+export const tsvToTable = (tsv: string, headerRows?: number): TableData => {
+  const rows = tsv.split('\n').map(line => line.split('\t').map((text): TableCell => ({ text })));
+  const table: TableData = { rows };
+  if (headerRows) table.headerRows = Math.min(headerRows, rows.length);
+  return table;
+};
+
+/**
+ * Replace a block's text. Inline styling can't be mapped onto free-form
+ * edits, so the runs are dropped once the text differs; a table is rebuilt
+ * from the edited tab-separated text.
+ */
+export const setBlockText = (block: TextBlock, text: string): TextBlock => {
+  if (text === block.text) return block;
+  const { runs: _runs, ...rest } = block;
+  if (block.type === 'table') {
+    return { ...rest, text, table: tsvToTable(text, block.table?.headerRows) };
+  }
+  return { ...rest, text };
+};
+
+/** Change a block's type, converting to or from a table and resetting the level. */
+export const setBlockType = (block: TextBlock, type: BlockType): TextBlock => {
+  if (type === block.type) return block;
+  const { table: _table, level: _level, ...rest } = block;
+  if (type === 'table') {
+    const { runs: _runs, ...plain } = rest;
+    return { ...plain, type, table: tsvToTable(block.text) };
+  }
+  return { ...rest, type };
+};
+
+const unionBox = (a?: BoundingBox, b?: BoundingBox): BoundingBox | undefined =>
+  a && b
+    ? [Math.min(a[0], b[0]), Math.min(a[1], b[1]), Math.max(a[2], b[2]), Math.max(a[3], b[3])]
+    : a ?? b;
+
+/**
+ * Join two blocks into one, keeping the first block's type and alignment.
+ * Text is joined with a line break and the boxes are combined.
+ */
+export const mergeBlocks = (first: TextBlock, second: TextBlock): TextBlock => {
+  const text = `${first.text}\n${second.text}`;
+  const merged: TextBlock = { ...first, text };
+  if (first.type === 'table') {
+    merged.table = tsvToTable(text, first.table?.headerRows);
+  } else if (first.runs || second.runs) {
+    merged.runs = [...blockRuns(first), { text: '\n' }, ...blockRuns(second)];
+  }
+  const box = unionBox(first.box, second.box);
+  if (box) merged.box = box;
+  return merged;
+};
+
+const splitRuns = (runs: InlineRun[], at: number): [InlineRun[], InlineRun[]] => {
+  const before: InlineRun[] = [];
+  const after: InlineRun[] = [];
+  let offset = 0;
+  runs.forEach(run => {
+    const cut = Math.min(Math.max(at - offset, 0), run.text.length);
+    if (cut > 0) before.push({ ...run, text: run.text.slice(0, cut) });
+    if (cut < run.text.length) after.push({ ...run, text: run.text.slice(cut) });
+    offset += run.text.length;
+  });
+  return [before, after];
+};
+
+/**
+ * Split a block in two at a character offset. Both halves keep the type,
+ * alignment and box; returns the block unchanged if either half is blank.
+ */
+export const splitBlock = (block: TextBlock, at: number): TextBlock[] => {
+  const head = block.text.slice(0, at).replace(/\n+$/, '');
+  const tail = block.text.slice(at).replace(/^\n+/, '');
+  if (!head.trim() || !tail.trim()) return [block];
+
+  if (block.type === 'table') {
+    return [setBlockText(block, head), setBlockText(block, tail)];
+  }
+  const { runs, ...rest } = block;
+  if (!runs) return [{ ...rest, text: head }, { ...rest, text: tail }];
+  // Trim the same newlines from the runs as from the text.
+  const [before, after] = splitRuns(runs, at);
+  const [headRuns] = splitRuns(before, head.length);
+  const [, tailRuns] = splitRuns(after, after.reduce((n, r) => n + r.text.length, 0) - tail.length);
+  return [{ ...rest, text: head, runs: headRuns }, { ...rest, text: tail, runs: tailRuns }];
+};
@@ -0,0 +1,80 @@
+/**
+ * Small async helpers shared by the browser and the server: a bounded
+ * worker pool and retry with exponential backoff.
+ */
+
+/**
+ * Run `fn` over `items` with at most `limit` calls in flight. Results keep
+ * the order of `items` regardless of completion order.
+ */
+export const mapPool = async <T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+};
+
+/** Resolves after `ms`, or rejects with the abort reason as soon as `signal` fires. */
+export const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+export interface RetryOptions {
+  retries: number;
+  baseDelayMs: number;
+  maxDelayMs?: number;
+  isRetryable: (error: unknown) => boolean;
+  /** Stops retrying (and waiting) once aborted. */
+  signal?: AbortSignal;
+}
+
+export const DEFAULT_RETRY: Omit<RetryOptions, 'isRetryable'> = {
+  retries: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 30_000,
+};
+
+/** HTTP statuses worth retrying: rate limiting and server-side failures. */
+export const isRetryableStatus = (status: number | undefined) =>
+  status === 408 || status === 429 || (status !== undefined && status >= 500);
+
+/**
+ * Call `fn` until it succeeds, waiting roughly base × 2^attempt between
+ * attempts (half of it jittered so parallel callers spread out).
+ * Non-retryable errors and the last failure are rethrown.
+ */
+export const withRetry = async <T>(fn: () => Promise<T>, options: RetryOptions): Promise<T> => {
+  const { retries, baseDelayMs, maxDelayMs = Infinity, isRetryable, signal } = options;
+  for (let attempt = 0; ; attempt++) {
+    signal?.throwIfAborted();
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= retries || signal?.aborted || !isRetryable(error)) throw error;
+      const backoff = Math.min(baseDelayMs * 2 ** attempt, maxDelayMs);
+      await sleep(backoff / 2 + Math.random() * backoff / 2, signal);
+    }
+  }
+};
@@ -0,0 +1,80 @@
+/**
+ * Minimal EXIF reader — just enough of a JPEG's APP1 segment to find when
+ * the photo was taken.
+ */
+
+// The APP1 segment sits near the start of the file
+const HEADER_BYTES = 128 * 1024;
+
+const TAG_EXIF_IFD = 0x8769;
+const TAG_DATE_TIME = 0x0132;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+
+/** Parse an EXIF "YYYY:MM:DD HH:MM:SS" timestamp, read as local time. */
+const parseExifDate = (value: string): number | null => {
+  const match = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/.exec(value);
+  if (!match) return null;
+  const [, y, mo, d, h, mi, s] = match.map(Number);
+  const time = new Date(y, mo - 1, d, h, mi, s).getTime();
+  return Number.isNaN(time) ? null : time;
+};
+
+/**
+ * Read entries from an IFD into a tag → value map. Only ASCII values and
+ * offsets (LONG) are decoded, which is all the capture date needs.
+ */
+const readIfd = (view: DataView, tiff: number, offset: number, little: boolean): Map<number, string | number> => {
+  const entries = new Map<number, string | number>();
+  const start = tiff + offset;
+  if (start + 2 > view.byteLength) return entries;
+
+  const count = view.getUint16(start, little);
+  for (let i = 0; i < count; i++) {
+    const entry = start + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    const tag = view.getUint16(entry, little);
+    const type = view.getUint16(entry + 2, little);
+    const length = view.getUint32(entry + 4, little);
+
+    if (type === 2) {
+      // ASCII; stored inline when it fits in four bytes
+      const at = length > 4 ? tiff + view.getUint32(entry + 8, little) : entry + 8;
+      if (at + length > view.byteLength) continue;
+      let text = '';
+      for (let j = 0; j < length - 1; j++) text += String.fromCharCode(view.getUint8(at + j));
+      entries.set(tag, text);
+    } else if (type === 4) {
+      entries.set(tag, view.getUint32(entry + 8, little));
+    }
+  }
+  return entries;
+};
+
+/**
+ * When the photo was taken, from EXIF DateTimeOriginal (or DateTime), as a
+ * millisecond timestamp. Null for non-JPEG files or when no date is stored.
+ */
+export const readCaptureDate = async (file: File): Promise<number | null> => {
+  const view = new DataView(await file.slice(0, HEADER_BYTES).arrayBuffer());
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return null;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const size = view.getUint16(offset + 2);
+    // APP1 starting with "Exif\0\0"
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      const tiff = offset + 10;
+      const little = view.getUint16(tiff) === 0x4949;
+      const ifd0 = readIfd(view, tiff, view.getUint32(tiff + 4, little), little);
+      const exifOffset = ifd0.get(TAG_EXIF_IFD);
+      const exif = typeof exifOffset === 'number' ? readIfd(view, tiff, exifOffset, little) : new Map();
+      const date = exif.get(TAG_DATE_TIME_ORIGINAL) ?? ifd0.get(TAG_DATE_TIME);
+      return typeof date === 'string' ? parseExifDate(date) : null;
+    }
+    // Image data follows the start-of-scan marker; no EXIF after that
+    if (marker === 0xffda || (marker & 0xff00) !== 0xff00) return null;
+    offset += 2 + size;
+  }
+  return null;
+};
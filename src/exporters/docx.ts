@@ -0,0 +1,198 @@
+/**
+ * DOCX exporter — maps the block model onto Word headings, numbered and
+ * bulleted lists, native tables and styled runs, with alignment preserved.
+ * Right-to-left blocks become bidirectional paragraphs with RTL runs.
+ */
+
+import {
+  Document,
+  Packer,
+  Paragraph,
+  TextRun,
+  AlignmentType,
+  HeadingLevel,
+  LevelFormat,
+  Table,
+  TableRow,
+  TableCell,
+  WidthType,
+} from 'docx';
+import type { ILevelsOptions } from 'docx';
+import type { Alignment, Direction, InlineRun, TableData, TextBlock } from '../types';
+import { blockDirection, blockRuns, headingLevel, listLevel, tableGrid } from '../blocks';
+import type { Exporter } from './types';
+
+const alignmentMap = {
+  left: AlignmentType.LEFT,
+  center: AlignmentType.CENTER,
+  right: AlignmentType.RIGHT
+};
+
+// Word reads left/right in a bidi paragraph relative to the text direction,
+// so the alignment seen on the page is given as start/end instead.
+const rtlAlignmentMap = {
+  left: AlignmentType.END,
+  center: AlignmentType.CENTER,
+  right: AlignmentType.START
+};
+
+const paragraphAlignment = (alignment: Alignment, direction: Direction) =>
+  (direction === 'rtl' ? rtlAlignmentMap : alignmentMap)[alignment] || AlignmentType.LEFT;
+
+const headingMap = [
+  HeadingLevel.HEADING_1,
+  HeadingLevel.HEADING_2,
+  HeadingLevel.HEADING_3,
+  HeadingLevel.HEADING_4,
+  HeadingLevel.HEADING_5,
+  HeadingLevel.HEADING_6,
+];
+
+const NUMBERED_LIST = 'snapconvert-numbered';
+
+// decimal → lower letter → lower roman, repeating for deeper nesting
+const numberedLevels: ILevelsOptions[] = Array.from({ length: 9 }, (_, level) => ({
+  level,
+  format: [LevelFormat.DECIMAL, LevelFormat.LOWER_LETTER, LevelFormat.LOWER_ROMAN][level % 3],
+  text: `%${level + 1}.`,
+  alignment: AlignmentType.START,
+  style: {
+    paragraph: {
+      indent: { left: 720 * (level + 1), hanging: 360 },
+    },
+  },
+}));
+
+const CAPTION_SIZE = 18; // half-points
+
+// Usable width of a default A4/Letter page with 1" margins, in twips
+const TABLE_WIDTH = 9000;
+
+interface RunStyle {
+  size?: number;
+  bold?: boolean;
+  italics?: boolean;
+  rightToLeft?: boolean;
+}
+
+const runsToTextRuns = (runs: InlineRun[], style: RunStyle): TextRun[] =>
+  runs.flatMap(run =>
+    run.text.split('\n').map((line, i) => new TextRun({
+      text: line,
+      break: i > 0 ? 1 : undefined,
+      bold: run.bold || style.bold || undefined,
+      italics: run.italic || style.italics || undefined,
+      underline: run.underline ? {} : undefined,
+      size: style.size,
+      rightToLeft: style.rightToLeft || undefined,
+    }))
+  );
+
+const toTextRuns = (block: TextBlock, direction: Direction): TextRun[] => {
+  const isCaption = block.type === 'caption';
+  const size = block.fontSize ? Math.round(block.fontSize * 2) : isCaption ? CAPTION_SIZE : undefined;
+  return runsToTextRuns(blockRuns(block), { size, italics: isCaption, rightToLeft: direction === 'rtl' });
+};
+
+const toTable = (table: TableData, direction: Direction): Table => {
+  const columnCount = tableGrid(table)[0]?.length || 1;
+  const headerRows = table.headerRows ?? 0;
+  const rtl = direction === 'rtl';
+
+  return new Table({
+    width: { size: 100, type: WidthType.PERCENTAGE },
+    columnWidths: Array(columnCount).fill(Math.floor(TABLE_WIDTH / columnCount)),
+    // First column on the right
+    visuallyRightToLeft: rtl || undefined,
+    rows: table.rows.map((row, r) => new TableRow({
+      tableHeader: r < headerRows || undefined,
+      children: row.map(cell => new TableCell({
+        rowSpan: cell.rowSpan,
+        columnSpan: cell.colSpan,
+        children: [new Paragraph({
+          alignment: paragraphAlignment(cell.alignment ?? (rtl ? 'right' : 'left'), direction),
+          bidirectional: rtl || undefined,
+          children: runsToTextRuns(cell.runs ?? [{ text: cell.text }], { bold: r < headerRows, rightToLeft: rtl }),
+        })],
+      })),
+    })),
+  });
+};
+
+export const docxExporter: Exporter = {
+  id: 'docx',
+  labelKey: 'formatDocx',
+  extension: 'docx',
+  mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  export: async (pages) => {
+    const children: (Paragraph | Table)[] = [];
+    // Each run of consecutive numbered items gets its own instance so
+    // separate lists restart at 1.
+    let numberingInstance = 0;
+
+    pages.forEach((imageBlocks) => {
+      let previousType: TextBlock['type'];
+
+      imageBlocks.forEach(block => {
+        const direction = blockDirection(block);
+        const alignment = paragraphAlignment(block.alignment, direction);
+        const bidirectional = direction === 'rtl' || undefined;
+        const runs = toTextRuns(block, direction);
+
+        if (block.type === 'table' && block.table) {
+          children.push(toTable(block.table, direction));
+          // Word merges adjacent tables, so keep a spacer paragraph after each.
+          children.push(new Paragraph({ children: [], spacing: { after: 200 } }));
+        } else if (block.type === 'heading') {
+          children.push(new Paragraph({
+            heading: headingMap[headingLevel(block) - 1],
+            alignment,
+            bidirectional,
+            children: runs,
+            spacing: { before: 240, after: 120 }
+          }));
+        } else if (block.type === 'bullet') {
+          children.push(new Paragraph({
+            bullet: { level: listLevel(block) },
+            alignment,
+            bidirectional,
+            children: runs,
+            spacing: { after: 80 }
+          }));
+        } else if (block.type === 'numbered') {
+          if (previousType !== 'numbered') numberingInstance++;
+          children.push(new Paragraph({
+            numbering: { reference: NUMBERED_LIST, level: listLevel(block), instance: numberingInstance },
+            alignment,
+            bidirectional,
+            children: runs,
+            spacing: { after: 80 }
+          }));
+        } else {
+          children.push(new Paragraph({
+            alignment,
+            bidirectional,
+            children: runs,
+            spacing: { after: 200 }
+          }));
+        }
+
+        previousType = block.type;
+      });
+
+      // An empty paragraph separates one image's text from the next
+      children.push(new Paragraph({ children: [new TextRun("")] }));
+    });
+
+    const doc = new Document({
+      numbering: {
+        config: [{ reference: NUMBERED_LIST, levels: numberedLevels }],
+      },
+      sections: [{
+        children: children,
+      }],
+    });
+
+    return Packer.toBlob(doc);
+  },
+};
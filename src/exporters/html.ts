@@ -0,0 +1,112 @@
+/**
+ * HTML exporter — a standalone page with one <section> per source image.
+ * Headings, lists, tables and inline emphasis map to their HTML elements.
+ */
+
+import type { ExtractedPages, InlineRun, TableData, TextBlock } from '../types';
+import { blockDirection, blockRuns, headingLevel, listLevel } from '../blocks';
+import type { Exporter } from './types';
+
+export const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const runsToHtml = (runs: InlineRun[]): string =>
+  runs
+    .map(run => {
+      let html = escapeHtml(run.text).replace(/\n/g, '<br>');
+      if (run.underline) html = `<u>${html}</u>`;
+      if (run.italic) html = `<em>${html}</em>`;
+      if (run.bold) html = `<strong>${html}</strong>`;
+      return html;
+    })
+    .join('');
+
+const inlineHtml = (block: TextBlock): string => runsToHtml(blockRuns(block));
+
+const tableToHtml = (table: TableData, rtl: boolean): string => {
+  const headerRows = table.headerRows ?? 0;
+  const rows = table.rows.map((row, r) => {
+    const tag = r < headerRows ? 'th' : 'td';
+    const cells = row.map(cell => {
+      const attrs = [
+        cell.rowSpan ? ` rowspan="${cell.rowSpan}"` : '',
+        cell.colSpan ? ` colspan="${cell.colSpan}"` : '',
+        cell.alignment ? ` style="text-align: ${cell.alignment}"` : '',
+      ].join('');
+      return `<${tag}${attrs}>${runsToHtml(cell.runs ?? [{ text: cell.text }])}</${tag}>`;
+    });
+    return `      <tr>${cells.join('')}</tr>`;
+  });
+  return `    <table${rtl ? ' dir="rtl"' : ''} border="1" cellspacing="0" cellpadding="4">\n${rows.join('\n')}\n    </table>`;
+};
+
+const blockAttrs = (block: TextBlock) =>
+  `${blockDirection(block) === 'rtl' ? ' dir="rtl"' : ''} style="text-align: ${block.alignment || 'left'}"`;
+
+const pageToHtml = (blocks: TextBlock[]): string => {
+  const lines: string[] = [];
+  // Stack of open list tags; its length is the current nesting depth.
+  const openLists: string[] = [];
+
+  const closeListsTo = (depth: number) => {
+    while (openLists.length > depth) lines.push(`    </${openLists.pop()}>`);
+  };
+
+  blocks.forEach(block => {
+    if (block.type === 'bullet' || block.type === 'numbered') {
+      const tag = block.type === 'bullet' ? 'ul' : 'ol';
+      const depth = listLevel(block) + 1;
+      closeListsTo(depth);
+      if (openLists.length === depth && openLists[depth - 1] !== tag) closeListsTo(depth - 1);
+      while (openLists.length < depth) {
+        openLists.push(tag);
+        lines.push(`    <${tag}>`);
+      }
+      lines.push(`    <li${blockAttrs(block)}>${inlineHtml(block)}</li>`);
+      return;
+    }
+
+    closeListsTo(0);
+    if (block.type === 'table' && block.table) {
+      lines.push(tableToHtml(block.table, blockDirection(block) === 'rtl'));
+    } else if (block.type === 'heading') {
+      const level = headingLevel(block);
+      lines.push(`    <h${level}${blockAttrs(block)}>${inlineHtml(block)}</h${level}>`);
+    } else if (block.type === 'caption') {
+      lines.push(`    <p class="caption"${blockAttrs(block)}><small><em>${inlineHtml(block)}</em></small></p>`);
+    } else {
+      lines.push(`    <p${blockAttrs(block)}>${inlineHtml(block)}</p>`);
+    }
+  });
+  closeListsTo(0);
+
+  return `  <section>\n${lines.join('\n')}\n  </section>`;
+};
+
+export const pagesToHtml = (pages: ExtractedPages, title = 'SnapConvert'): string => {
+  const sections = pages.map(pageToHtml).join('\n  <hr>\n');
+
+  return `<!doctype html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(title)}</title>
+</head>
+<body>
+${sections}
+</body>
+</html>
+`;
+};
+
+export const htmlExporter: Exporter = {
+  id: 'html',
+  labelKey: 'formatHtml',
+  extension: 'html',
+  mimeType: 'text/html;charset=utf-8',
+  export: async (pages) => new Blob([pagesToHtml(pages)], { type: 'text/html;charset=utf-8' }),
+};
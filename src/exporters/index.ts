@@ -0,0 +1,39 @@
+/**
+ * Exporter registry. Each output format registers itself here and the
+ * format picker in the Controls section lists whatever is registered.
+ */
+
+import type { ExportFormat, Exporter } from './types';
+import { docxExporter } from './docx';
+import { pdfExporter, pdfTextExporter } from './pdf';
+import { markdownExporter } from './markdown';
+import { htmlExporter } from './html';
+import { textExporter } from './text';
+import { odtExporter } from './odt';
+
+export type { ExportContext, ExportFormat, Exporter } from './types';
+export { pagesToPlainText } from './text';
+
+const registry = new Map<ExportFormat, Exporter>();
+
+export const registerExporter = (exporter: Exporter) => {
+  registry.set(exporter.id, exporter);
+};
+
+export const getExporter = (id: ExportFormat): Exporter => {
+  const exporter = registry.get(id);
+  if (!exporter) throw new Error(`Unknown export format: ${id}`);
+  return exporter;
+};
+
+export const listExporters = (): Exporter[] => Array.from(registry.values());
+
+[
+  docxExporter,
+  pdfExporter,
+  pdfTextExporter,
+  markdownExporter,
+  htmlExporter,
+  textExporter,
+  odtExporter,
+].forEach(registerExporter);
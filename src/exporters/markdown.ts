@@ -0,0 +1,89 @@
+/**
+ * Markdown exporter — headings, lists and emphasis carried over, a
+ * horizontal rule between images. Markdown has no alignment, so that is lost.
+ */
+
+import type { ExtractedPages, TextBlock } from '../types';
+import { blockRuns, headingLevel, listLevel, tableGrid } from '../blocks';
+import type { Exporter } from './types';
+
+// Escape inline syntax and anything that would turn a line into a heading,
+// quote, list item or rule when pasted into a wiki. A line of only "-" or
+// "=" (spaces allowed) is a rule or underlines the line above as a heading.
+const escapeMarkdown = (text: string): string =>
+  text
+    .replace(/([\\`*_[\]<>|])/g, '\\$1')
+    .split('\n')
+    .map(line => line
+      .replace(/^(\s*)([-=])(?=[-=\s]*$)/, '$1\\$2')
+      .replace(/^(\s*)([#>+-])(?=\s|$)/, '$1\\$2')
+      // "1\." rather than "\1.", which renderers show with the backslash
+      .replace(/^(\s*)(\d+)\.(?=\s|$)/, '$1$2\\.'))
+    .join('  \n');
+
+// Emphasis markers must hug the text, so surrounding spaces stay outside.
+const emphasize = (text: string, marker: string): string => {
+  const [, lead, body, trail] = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  return body ? `${lead}${marker}${body}${marker}${trail}` : text;
+};
+
+const inlineMarkdown = (block: TextBlock): string =>
+  blockRuns(block)
+    .map(run => {
+      let text = escapeMarkdown(run.text);
+      if (run.bold) text = emphasize(text, '**');
+      if (run.italic) text = emphasize(text, '_');
+      return text;
+    })
+    .join('');
+
+// GFM tables need a header row, so the first row always serves as one.
+const tableToMarkdown = (block: TextBlock): string => {
+  const grid = tableGrid(block.table!);
+  const row = (cells: string[]) =>
+    `| ${cells.map(cell => escapeMarkdown(cell).replace(/ {2}\n/g, ' ')).join(' | ')} |`;
+  return [
+    row(grid[0]),
+    `|${grid[0].map(() => ' --- |').join('')}`,
+    ...grid.slice(1).map(row),
+  ].join('\n');
+};
+
+const blockToMarkdown = (block: TextBlock): string => {
+  if (block.type === 'table' && block.table) return tableToMarkdown(block);
+
+  const text = inlineMarkdown(block);
+  switch (block.type) {
+    case 'heading':
+      return `${'#'.repeat(headingLevel(block))} ${text.replace(/ {2}\n/g, ' ')}`;
+    case 'bullet':
+      return `${'  '.repeat(listLevel(block))}- ${text}`;
+    case 'numbered':
+      return `${'   '.repeat(listLevel(block))}1. ${text}`;
+    case 'caption':
+      return emphasize(text, '_');
+    default:
+      return text;
+  }
+};
+
+const isListItem = (block: TextBlock) => block.type === 'bullet' || block.type === 'numbered';
+
+const pageToMarkdown = (blocks: TextBlock[]): string =>
+  blocks
+    .map((block, i) => {
+      const separator = i === 0 ? '' : isListItem(block) && isListItem(blocks[i - 1]) ? '\n' : '\n\n';
+      return separator + blockToMarkdown(block);
+    })
+    .join('');
+
+export const pagesToMarkdown = (pages: ExtractedPages): string =>
+  pages.map(pageToMarkdown).join('\n\n---\n\n') + '\n';
+
+export const markdownExporter: Exporter = {
+  id: 'md',
+  labelKey: 'formatMarkdown',
+  extension: 'md',
+  mimeType: 'text/markdown;charset=utf-8',
+  export: async (pages) => new Blob([pagesToMarkdown(pages)], { type: 'text/markdown;charset=utf-8' }),
+};
@@ -0,0 +1,165 @@
+/**
+ * PDF exporters — build PDFs from extracted pages with jsPDF.
+ * The searchable variant keeps each source image as a page and lays the
+ * extracted text over it in invisible render mode, so the page looks like the
+ * scan but can be selected and searched.
+ */
+
+import { jsPDF } from 'jspdf';
+import type { ExtractedPages, TextBlock } from '../types';
+import type { Exporter } from './types';
+
+// A4 in points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 56;
+const LINE_HEIGHT_FACTOR = 1.15;
+
+// jsPDF's built-in Helvetica only covers WinAnsi; characters outside it are
+// still written but may not map back to the original text when searched.
+const FONT = 'helvetica';
+
+interface LoadedImage {
+  dataUrl: string;
+  width: number;
+  height: number;
+  format: 'JPEG' | 'PNG';
+}
+
+const loadImage = async (file: File): Promise<LoadedImage> => {
+  const dataUrl = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+  const { width, height } = await new Promise<{ width: number; height: number }>((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+    img.onerror = () => reject(new Error(`Could not decode ${file.name}`));
+    img.src = dataUrl;
+  });
+  return { dataUrl, width, height, format: file.type === 'image/png' ? 'PNG' : 'JPEG' };
+};
+
+/** Writes one block as invisible text stretched over its bounding box. */
+const placeInvisibleBlock = (doc: jsPDF, block: TextBlock, pageW: number, pageH: number) => {
+  const [ymin, xmin, ymax, xmax] = block.box!;
+  const left = (xmin / 1000) * pageW;
+  const top = (ymin / 1000) * pageH;
+  const boxW = ((xmax - xmin) / 1000) * pageW;
+  const boxH = ((ymax - ymin) / 1000) * pageH;
+  const lines = block.text.replace(/\t/g, '    ').split('\n');
+  const lineHeight = boxH / lines.length;
+  const fontSize = Math.max(lineHeight / LINE_HEIGHT_FACTOR, 1);
+
+  doc.setFontSize(fontSize);
+  lines.forEach((line, i) => {
+    if (!line.trim()) return;
+    const naturalWidth = doc.getTextWidth(line);
+    const horizontalScale = naturalWidth > 0 && boxW > 0 ? boxW / naturalWidth : 1;
+    doc.text(line, left, top + i * lineHeight, {
+      baseline: 'top',
+      renderingMode: 'invisible',
+      horizontalScale,
+    });
+  });
+};
+
+/**
+ * Fallback for blocks the model returned without a box: stack them down the
+ * page in reading order so the text is at least searchable.
+ */
+const placeInvisibleFlow = (doc: jsPDF, blocks: TextBlock[], pageW: number, pageH: number) => {
+  const fontSize = 10;
+  const lineHeight = fontSize * LINE_HEIGHT_FACTOR;
+  let y = MARGIN / 2;
+  doc.setFontSize(fontSize);
+  for (const block of blocks) {
+    const lines: string[] = doc.splitTextToSize(block.text.replace(/\t/g, '    '), pageW - MARGIN);
+    for (const line of lines) {
+      if (y + lineHeight > pageH) return;
+      doc.text(line, MARGIN / 2, y, { baseline: 'top', renderingMode: 'invisible' });
+      y += lineHeight;
+    }
+  }
+};
+
+/** Image-per-page PDF with an invisible, searchable text layer. */
+const buildSearchablePdf = async (images: File[], pages: ExtractedPages): Promise<Blob> => {
+  let doc: jsPDF | null = null;
+
+  for (let i = 0; i < images.length; i++) {
+    const image = await loadImage(images[i]);
+    const pageW = PAGE_WIDTH;
+    const pageH = PAGE_WIDTH * (image.height / image.width);
+    const orientation = pageW > pageH ? 'landscape' : 'portrait';
+
+    if (!doc) {
+      doc = new jsPDF({ unit: 'pt', format: [pageW, pageH], orientation });
+    } else {
+      doc.addPage([pageW, pageH], orientation);
+    }
+    doc.addImage(image.dataUrl, image.format, 0, 0, pageW, pageH, undefined, 'FAST');
+    doc.setFont(FONT, 'normal');
+
+    const blocks = pages[i] || [];
+    blocks.filter(b => b.box).forEach(b => placeInvisibleBlock(doc!, b, pageW, pageH));
+    placeInvisibleFlow(doc, blocks.filter(b => !b.box), pageW, pageH);
+  }
+
+  if (!doc) throw new Error('No images to export');
+  return doc.output('blob');
+};
+
+/** Text-only A4 PDF with the extracted blocks reflowed and aligned. */
+const buildTextPdf = (pages: ExtractedPages): Blob => {
+  const doc = new jsPDF({ unit: 'pt', format: 'a4' });
+  const fontSize = 11;
+  const lineHeight = fontSize * 1.4;
+  const maxWidth = PAGE_WIDTH - MARGIN * 2;
+  let y = MARGIN;
+
+  doc.setFont(FONT, 'normal');
+  doc.setFontSize(fontSize);
+
+  pages.forEach((blocks, pageIndex) => {
+    if (pageIndex > 0) y += lineHeight;
+
+    blocks.forEach(block => {
+      // Tables fall back to their tab-separated text with tabs widened.
+      const lines: string[] = doc.splitTextToSize(block.text.replace(/\t/g, '    '), maxWidth);
+      const x = block.alignment === 'center' ? PAGE_WIDTH / 2
+        : block.alignment === 'right' ? PAGE_WIDTH - MARGIN
+          : MARGIN;
+
+      lines.forEach(line => {
+        if (y + lineHeight > PAGE_HEIGHT - MARGIN) {
+          doc.addPage();
+          y = MARGIN;
+        }
+        doc.text(line, x, y, { baseline: 'top', align: block.alignment });
+        y += lineHeight;
+      });
+      y += lineHeight / 2;
+    });
+  });
+
+  return doc.output('blob');
+};
+
+export const pdfExporter: Exporter = {
+  id: 'pdf',
+  labelKey: 'formatPdf',
+  extension: 'pdf',
+  mimeType: 'application/pdf',
+  export: (pages, { images }) => buildSearchablePdf(images, pages),
+};
+
+export const pdfTextExporter: Exporter = {
+  id: 'pdf-text',
+  labelKey: 'formatPdfText',
+  extension: 'pdf',
+  mimeType: 'application/pdf',
+  export: async (pages) => buildTextPdf(pages),
+};
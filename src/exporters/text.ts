@@ -0,0 +1,19 @@
+/**
+ * Plain-text exporter — blocks on their own lines, a blank line between images.
+ */
+
+import type { ExtractedPages } from '../types';
+import type { Exporter } from './types';
+
+export const pagesToPlainText = (pages: ExtractedPages): string =>
+  pages
+    .map(blocks => blocks.map(b => b.text).join('\n'))
+    .join('\n\n');
+
+export const textExporter: Exporter = {
+  id: 'txt',
+  labelKey: 'formatTxt',
+  extension: 'txt',
+  mimeType: 'text/plain;charset=utf-8',
+  export: async (pages) => new Blob([pagesToPlainText(pages)], { type: 'text/plain;charset=utf-8' }),
+};
@@ -0,0 +1,22 @@
+/**
+ * Exporter contract: turns extracted pages into a downloadable file.
+ */
+
+import type { TextKey } from '../i18n';
+import type { ExtractedPages } from '../types';
+
+export type ExportFormat = 'docx' | 'pdf' | 'pdf-text' | 'md' | 'html' | 'txt' | 'odt';
+
+export interface ExportContext {
+  /** Source images in the same order as the extracted pages. */
+  images: File[];
+}
+
+export interface Exporter {
+  id: ExportFormat;
+  /** Translation key for the format name shown in the picker. */
+  labelKey: TextKey;
+  extension: string;
+  mimeType: string;
+  export: (pages: ExtractedPages, context: ExportContext) => Promise<Blob>;
+}
@@ -0,0 +1,62 @@
+/**
+ * Languages, message types and formatting. The strings themselves live in
+ * src/locales/, one file per language; English defines the key set. The
+ * choice is remembered, and on first visit follows the browser's language.
+ */
+
+import en from './locales/en';
+import es from './locales/es';
+import tr from './locales/tr';
+import type { Direction } from './types';
+
+export type Lang = 'en' | 'es' | 'tr';
+
+// Mark right-to-left languages with dir: 'rtl' and the whole UI mirrors
+export const LANGUAGES: { code: Lang; label: string; flag: string; dir?: Direction }[] = [
+  { code: 'en', label: 'English', flag: '🇬🇧' },
+  { code: 'es', label: 'Español', flag: '🇪🇸' },
+  { code: 'tr', label: 'Türkçe', flag: '🇹🇷' },
+];
+
+/** A message with a form per CLDR plural category; `other` is the fallback. */
+export type PluralForms = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+export type MessageKey = keyof typeof en;
+
+export type Messages = {
+  [K in MessageKey]: (typeof en)[K] extends string ? string : PluralForms;
+};
+
+/** Keys of plain (non-plural) messages, e.g. for label lookups by key. */
+export type TextKey = { [K in MessageKey]: Messages[K] extends string ? K : never }[MessageKey];
+
+export const locales: Record<Lang, Messages> = { en, es, tr };
+
+export const langDirection = (lang: Lang): Direction =>
+  LANGUAGES.find(language => language.code === lang)?.dir ?? 'ltr';
+
+const LANG_KEY = 'snapconvert.lang';
+
+export const isLang = (value: unknown): value is Lang =>
+  LANGUAGES.some(language => language.code === value);
+
+/** The saved choice, else the first browser language we have, else English. */
+export const detectLang = (): Lang => {
+  const saved = localStorage.getItem(LANG_KEY);
+  if (isLang(saved)) return saved;
+  for (const tag of navigator.languages?.length ? navigator.languages : [navigator.language]) {
+    const base = tag?.toLowerCase().split('-')[0];
+    if (isLang(base)) return base;
+  }
+  return 'en';
+};
+
+export const saveLang = (lang: Lang) => localStorage.setItem(LANG_KEY, lang);
+
+/** Fill `{name}` placeholders; unknown ones are left as they are. */
+export const formatMessage = (template: string, values: Record<string, string | number>) =>
+  template.replace(/\{(\w+)\}/g, (match, name: string) => (name in values ? String(values[name]) : match));
+
+/** Pick the plural form for `count` and fill it in; `{count}` is always available. */
+export const plural = (lang: Lang, forms: PluralForms, count: number, values: Record<string, string | number> = {}) =>
+  formatMessage(forms[new Intl.PluralRules(lang).select(count)] ?? forms.other, { count, ...values });
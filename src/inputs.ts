@@ -0,0 +1,147 @@
+/**
+ * Input formats beyond JPEG and PNG. HEIC and WebP photos are converted to
+ * JPEG, and PDF pages are rasterised into one image each, all locally.
+ * The converters are imported on first use to keep them out of the main
+ * bundle.
+ */
+
+/** Value for the file inputs' `accept` attribute. */
+export const ACCEPTED_INPUTS = 'image/jpeg,image/png,image/webp,image/heic,image/heif,.heic,.heif,application/pdf';
+
+// Longest side of a rasterised PDF page, matching the largest preprocessing size
+const PDF_PAGE_SIDE = 3072;
+const JPEG_QUALITY = 0.92;
+
+export type InputKind = 'jpeg' | 'png' | 'webp' | 'heic' | 'pdf';
+
+// ISO-BMFF brands used by HEIC/HEIF stills and sequences
+const HEIF_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'];
+
+const extension = (file: File) => file.name.split('.').pop()?.toLowerCase() ?? '';
+const baseName = (file: File) => file.name.replace(/\.[^.]*$/, '');
+
+/**
+ * Identify a file from its leading bytes rather than its name or reported
+ * type, which are easily wrong. Returns null for anything we can't read.
+ */
+export const sniffInputKind = async (file: File): Promise<InputKind | null> => {
+  const bytes = new Uint8Array(await file.slice(0, 16).arrayBuffer());
+  const ascii = (from: number, to: number) => String.fromCharCode(...bytes.subarray(from, to));
+
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'jpeg';
+  if (ascii(0, 8) === '\x89PNG\r\n\x1a\n') return 'png';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'webp';
+  if (ascii(4, 8) === 'ftyp' && HEIF_BRANDS.includes(ascii(8, 12))) return 'heic';
+  if (ascii(0, 5) === '%PDF-') return 'pdf';
+  return null;
+};
+
+// Only for display, where sniffing would be overkill
+export const isPdf = (file: File) => file.type === 'application/pdf' || extension(file) === 'pdf';
+
+const canvasToJpeg = (canvas: HTMLCanvasElement, name: string, lastModified: number): Promise<File> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) resolve(new File([blob], `${name}.jpg`, { type: 'image/jpeg', lastModified }));
+      else reject(new Error('Could not encode image'));
+    }, 'image/jpeg', JPEG_QUALITY);
+  });
+
+/**
+ * Convert HEIC and WebP photos to JPEG; JPEG and PNG are returned as they
+ * are. WebP transparency is flattened onto white.
+ */
+export const toSupportedImage = async (file: File, kind: InputKind): Promise<File> => {
+  if (kind === 'heic') {
+    const { default: heic2any } = await import('heic2any');
+    const result = await heic2any({ blob: file, toType: 'image/jpeg', quality: JPEG_QUALITY });
+    // A HEIC burst holds several images; the first is the photo itself
+    const blob = Array.isArray(result) ? result[0] : result;
+    return new File([blob], `${baseName(file)}.jpg`, { type: 'image/jpeg', lastModified: file.lastModified });
+  }
+
+  if (kind === 'webp') {
+    const bitmap = await createImageBitmap(file);
+    const canvas = document.createElement('canvas');
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    const ctx = canvas.getContext('2d')!;
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+    return canvasToJpeg(canvas, baseName(file), file.lastModified);
+  }
+
+  return file;
+};
+
+const loadPdfjs = async () => {
+  const pdfjs = await import('pdfjs-dist');
+  // Served from our own origin by the Vite plugin in vite.config.ts
+  pdfjs.GlobalWorkerOptions.workerSrc = new URL('/pdfjs/pdf.worker.min.mjs', window.location.href).href;
+  return pdfjs;
+};
+
+const openPdf = async (file: File) => {
+  const pdfjs = await loadPdfjs();
+  return pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+};
+
+export const countPdfPages = async (file: File): Promise<number> => {
+  const pdf = await openPdf(file);
+  const count = pdf.numPages;
+  await pdf.destroy();
+  return count;
+};
+
+/**
+ * Render the given 1-based pages of a PDF to JPEG files named
+ * `<name>-p<page>.jpg`, in the order given.
+ */
+export const rasterizePdf = async (file: File, pages: number[]): Promise<File[]> => {
+  const pdf = await openPdf(file);
+  try {
+    const images: File[] = [];
+    for (const pageNumber of pages) {
+      const page = await pdf.getPage(pageNumber);
+      const base = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({ scale: PDF_PAGE_SIDE / Math.max(base.width, base.height) });
+
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(viewport.width);
+      canvas.height = Math.round(viewport.height);
+      const ctx = canvas.getContext('2d')!;
+      ctx.fillStyle = '#fff';
+      ctx.fillRect(0, 0, canvas.width, canvas.height);
+      await page.render({ canvas, viewport }).promise;
+      page.cleanup();
+
+      images.push(await canvasToJpeg(canvas, `${baseName(file)}-p${pageNumber}`, file.lastModified));
+    }
+    return images;
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+/**
+ * Parse a page selection such as "1-3, 5, 8-" into sorted, de-duplicated
+ * page numbers. An empty selection means every page; returns null if any
+ * part is malformed or out of range.
+ */
+export const parsePageRange = (input: string, pageCount: number): number[] | null => {
+  const parts = input.split(',').map(part => part.trim()).filter(Boolean);
+  if (parts.length === 0) return Array.from({ length: pageCount }, (_, i) => i + 1);
+
+  const pages = new Set<number>();
+  for (const part of parts) {
+    const match = /^(\d*)\s*(?:(-)\s*(\d*))?$/.exec(part);
+    if (!match || (!match[1] && !match[3])) return null;
+    const from = match[1] ? Number(match[1]) : 1;
+    const to = match[2] ? (match[3] ? Number(match[3]) : pageCount) : from;
+    if (from < 1 || to > pageCount || from > to) return null;
+    for (let page = from; page <= to; page++) pages.add(page);
+  }
+  return [...pages].sort((a, b) => a - b);
+};
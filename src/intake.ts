@@ -0,0 +1,64 @@
+/**
+ * Intake checks shared by every way of adding files: content type from
+ * magic bytes, the size limit, and duplicate detection by content hash.
+ */
+
+import { sniffInputKind } from './inputs';
+import type { InputKind } from './inputs';
+import { sha256 } from './sha256';
+
+// Matches the server's limit in server/api.ts
+export const MAX_FILE_BYTES = 10 * 1024 * 1024;
+// PDFs never reach the server: their pages are rasterised here, each within
+// the image limit, so a multi-page scan gets more room
+export const MAX_PDF_BYTES = 100 * 1024 * 1024;
+
+export type RejectionReason = 'tooLarge' | 'pdfTooLarge' | 'unsupported' | 'duplicate' | 'convertFailed';
+
+export interface Rejection {
+  name: string;
+  reason: RejectionReason;
+}
+
+export interface AcceptedFile {
+  file: File;
+  kind: InputKind;
+  hash: string;
+}
+
+/** Content hash used to spot duplicates; also the file's id in phone transfers. */
+export const hashFile = async (file: Blob): Promise<string> => sha256(await file.arrayBuffer());
+
+/**
+ * Sort incoming files into accepted and rejected ones. `known` holds the
+ * hashes already in the list; duplicates within the batch are caught too.
+ */
+export const checkFiles = async (
+  files: File[],
+  known: Set<string>,
+): Promise<{ accepted: AcceptedFile[]; rejected: Rejection[] }> => {
+  const accepted: AcceptedFile[] = [];
+  const rejected: Rejection[] = [];
+  const seen = new Set(known);
+
+  for (const file of files) {
+    const kind = await sniffInputKind(file).catch(() => null);
+    if (!kind) {
+      rejected.push({ name: file.name, reason: 'unsupported' });
+      continue;
+    }
+    if (file.size > (kind === 'pdf' ? MAX_PDF_BYTES : MAX_FILE_BYTES)) {
+      rejected.push({ name: file.name, reason: kind === 'pdf' ? 'pdfTooLarge' : 'tooLarge' });
+      continue;
+    }
+    const hash = await hashFile(file);
+    if (seen.has(hash)) {
+      rejected.push({ name: file.name, reason: 'duplicate' });
+      continue;
+    }
+    seen.add(hash);
+    accepted.push({ file, kind, hash });
+  }
+
+  return { accepted, rejected };
+};
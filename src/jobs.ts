@@ -0,0 +1,148 @@
+/**
+ * Client side of the server's conversion job queue. The active job id is
+ * kept in localStorage so a reload can pick the job up where it left off.
+ */
+
+import { deleteResource, getBlob, getJson, postJson, putBlob, retryTransient } from './api';
+import { normalizeBlocks } from './blocks';
+import { sleep } from './concurrency';
+import type { BatchOptions } from './ocr/types';
+import type { ImageStatus, PartialPages } from './types';
+
+export interface JobSnapshot {
+  id: string;
+  imageCount: number;
+  status: 'uploading' | 'running' | 'done';
+  images: { index: number; name: string; status: ImageStatus; error?: string }[];
+}
+
+const ACTIVE_JOB_KEY = 'snapconvert.activeJob';
+const POLL_INTERVAL_MS = 1500;
+// Give up on a job whose images haven't changed status for this long
+const STALL_MS = 10 * 60 * 1000;
+
+export const getActiveJobId = (): string | null => localStorage.getItem(ACTIVE_JOB_KEY);
+
+const clearActiveJob = () => localStorage.removeItem(ACTIVE_JOB_KEY);
+
+const cancelJob = (id: string) => postJson(`/jobs/${id}/cancel`, {});
+
+const deleteJob = (id: string) =>
+  deleteResource(`/jobs/${id}`).catch(error => console.warn(`Could not delete job ${id}:`, error));
+
+/** Forget a job whose results are in hand or no longer wanted, here and on the server. */
+export const discardJob = (id: string) => {
+  clearActiveJob();
+  void deleteJob(id);
+};
+
+const collectJob = async (id: string, { signal, onImageStatus }: BatchOptions): Promise<PartialPages> => {
+  const reported: ImageStatus[] = [];
+  // Whether any image changed status since the last snapshot
+  const report = (job: JobSnapshot) => {
+    let changed = false;
+    job.images.forEach(image => {
+      if (reported[image.index] !== image.status) {
+        reported[image.index] = image.status;
+        onImageStatus(image.index, image.status);
+        changed = true;
+      }
+    });
+    return changed;
+  };
+
+  let job: JobSnapshot | null = null;
+  let stalled = false;
+  try {
+    let lastChange = Date.now();
+    for (;;) {
+      job = await retryTransient(() => getJson<JobSnapshot>(`/jobs/${id}`, signal), signal);
+      if (report(job)) lastChange = Date.now();
+      if (job.status === 'done') break;
+      if (Date.now() - lastChange > STALL_MS) {
+        console.warn(`Job ${id} made no progress for ${STALL_MS / 60_000} minutes; giving up`);
+        stalled = true;
+        break;
+      }
+      await sleep(POLL_INTERVAL_MS, signal);
+    }
+  } catch (error) {
+    if (!signal.aborted) throw error;
+  }
+
+  if (signal.aborted || stalled) {
+    await cancelJob(id);
+    job = await getJson<JobSnapshot>(`/jobs/${id}`);
+  }
+
+  const { pages } = await getJson<{ pages: unknown[] }>(`/jobs/${id}/result`);
+
+  const statuses = job!.images;
+  if (!signal.aborted && statuses.every(i => i.status === 'failed')) {
+    throw new Error(statuses[0]?.error || 'All images failed');
+  }
+  if (stalled && pages.every(page => !page)) throw new Error('The job stopped making progress');
+  return pages.map((page, i) => {
+    if (page) return normalizeBlocks(page);
+    const status = statuses.find(s => s.index === i)?.status;
+    if (status !== 'failed') onImageStatus(i, 'cancelled');
+    return status === 'failed' ? [] : null;
+  });
+};
+
+/**
+ * Poll until every image is done or failed, then return the pages in order.
+ * Failed images come back as empty pages; if all of them failed this throws.
+ * When `signal` aborts, or the job stops making progress, the server job is
+ * cancelled and whatever already finished is returned, with null for the rest.
+ */
+export const waitForJob = async (id: string, options: BatchOptions): Promise<PartialPages> => {
+  try {
+    return await collectJob(id, options);
+  } finally {
+    // Also when it failed: nothing would pick the job up again
+    discardJob(id);
+  }
+};
+
+/** Create a job, upload its images (extraction starts as each lands) and wait for it. */
+export const runJob = async (images: File[], options: BatchOptions): Promise<PartialPages> => {
+  const { signal } = options;
+  const { id } = await postJson<{ id: string }>('/jobs', { imageCount: images.length }, signal);
+  localStorage.setItem(ACTIVE_JOB_KEY, id);
+
+  try {
+    for (let i = 0; i < images.length; i++) {
+      const path = `/jobs/${id}/images/${i}?name=${encodeURIComponent(images[i].name)}`;
+      await retryTransient(() => putBlob(path, images[i], signal), signal);
+    }
+  } catch (error) {
+    if (!signal.aborted) {
+      discardJob(id);
+      throw error;
+    }
+  }
+
+  return waitForJob(id, options);
+};
+
+/**
+ * After a reload, stop a job that was still uploading from waiting for the
+ * rest: those images only existed in the closed tab. Returns how many never
+ * reached the server.
+ */
+export const closeJobUploads = async (id: string): Promise<number> => {
+  const job = await getJson<JobSnapshot>(`/jobs/${id}`);
+  if (job.status !== 'uploading') return 0;
+  const closed = await postJson<JobSnapshot>(`/jobs/${id}/close`, {});
+  return job.imageCount - closed.imageCount;
+};
+
+/** Fetch a job's stored images back, e.g. after the tab was closed. */
+export const restoreJobFiles = async (id: string): Promise<File[]> => {
+  const job = await getJson<JobSnapshot>(`/jobs/${id}`);
+  return Promise.all(job.images.map(async image => {
+    const blob = await getBlob(`/jobs/${id}/images/${image.index}`);
+    return new File([blob], image.name, { type: blob.type });
+  }));
+};
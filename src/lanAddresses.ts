@@ -0,0 +1,40 @@
+/**
+ * Addresses a phone may reach this PC at, listed by vite.config.ts at build
+ * or serve time (see server/network.ts). The phone dialog lets the user
+ * pick one when the first guess is a bridge or VPN the phone can't reach.
+ */
+
+export interface LanAddress {
+  // Interface name, e.g. "en0" or "wlan0"
+  name: string;
+  address: string;
+  // Bridges and tunnels a phone on the Wi-Fi usually can't reach
+  virtual: boolean;
+}
+
+const HOST_KEY = 'snapconvert.phoneHost';
+
+const isLocalhost = (hostname: string) => hostname === 'localhost' || hostname === '127.0.0.1';
+
+export const lanAddresses: LanAddress[] = (() => {
+  try {
+    return JSON.parse(process.env.LAN_ADDRESSES || '[]');
+  } catch {
+    return [];
+  }
+})();
+
+/**
+ * Host for the QR code: the last one picked if it's still there, the
+ * page's own host when the PC isn't on localhost, else the first real
+ * interface.
+ */
+export const defaultPhoneHost = () => {
+  const saved = localStorage.getItem(HOST_KEY);
+  if (saved && lanAddresses.some(entry => entry.address === saved)) return saved;
+  const { hostname } = window.location;
+  if (!isLocalhost(hostname)) return hostname;
+  return lanAddresses[0]?.address ?? hostname;
+};
+
+export const savePhoneHost = (host: string) => localStorage.setItem(HOST_KEY, host);
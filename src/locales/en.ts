@@ -0,0 +1,203 @@
+/**
+ * English strings. This locale defines the key set: the other locales are
+ * checked against it. Entries with `one`/`other` forms are plurals; pick one
+ * with `plural()` from src/i18n.ts. `{name}` marks a placeholder.
+ */
+
+const en = {
+  subtitle: 'Extract text from your images and save them as professional Word documents.',
+  dropImages: 'Drop your images here',
+  addMore: 'Add more images',
+  fileHint: 'Supports JPG, PNG, HEIC and WebP up to 10MB each, and PDF up to 100MB',
+  importing: 'Converting files…',
+  filesRejected: 'Some files were not added',
+  rejectTooLarge: 'Larger than {size} MB',
+  rejectUnsupported: 'Not a JPG, PNG, HEIC, WebP or PDF file',
+  rejectDuplicate: 'Already added',
+  rejectConvertFailed: 'Could not be converted',
+  pdfPages: 'Pages to import',
+  pdfPagesHint: {
+    one: 'This PDF has {count} page. Leave empty for all, or enter ranges like 1-3, 5.',
+    other: 'This PDF has {count} pages. Leave empty for all, or enter ranges like 1-3, 5.',
+  },
+  pdfPagesInvalid: 'Enter page numbers or ranges within the document.',
+  pdfImport: {
+    one: 'Import {count} page',
+    other: 'Import {count} pages',
+  },
+  pdfRendering: 'Rendering pages…',
+  pdfError: 'This PDF could not be opened.',
+  selectedImages: 'Selected Images',
+  clearAll: 'Clear all',
+  sortByName: 'Sort by name',
+  sortByDate: 'Sort by date taken',
+  sortByDevice: 'Group by phone',
+  dragToReorder: 'Drag to reorder',
+  movePage: 'Page {page}. Use the arrow keys to move it.',
+  converting: 'Extracting & Converting…',
+  success: 'Success!',
+  convertBtn: 'Convert to {format}',
+  outputFormat: 'Output format',
+  formatDocx: 'Word (DOCX)',
+  formatPdf: 'PDF (searchable scan)',
+  formatPdfText: 'PDF (text only)',
+  formatMarkdown: 'Markdown',
+  formatHtml: 'HTML',
+  formatTxt: 'Plain text (TXT)',
+  formatOdt: 'OpenDocument (ODT)',
+  ocrProvider: 'Text recognition',
+  ocrGemini: 'Gemini (cloud)',
+  ocrTesseract: 'Tesseract (offline)',
+  imageSize: 'Image size',
+  imageSizeMax: 'Up to {size}px',
+  imageSizeOriginal: 'Original size',
+  showBefore: 'Before',
+  showAfter: 'After',
+  cropTitle: 'Crop & straighten',
+  cropHint: 'Drag the corners onto the edges of the page.',
+  cropLoadFailed: 'This image could not be opened.',
+  rotate: 'Rotate 90°',
+  detectPage: 'Detect page',
+  resetCrop: 'Whole image',
+  applyCrop: 'Apply',
+  saving: 'Saving…',
+  undoEdit: 'Restore original',
+  cornerTopLeft: 'Top-left corner',
+  cornerTopRight: 'Top-right corner',
+  cornerBottomRight: 'Bottom-right corner',
+  cornerBottomLeft: 'Bottom-left corner',
+  extractTextBtn: 'Extract Text',
+  extracting: 'Extracting text…',
+  copyText: 'Copy',
+  copiedText: 'Copied!',
+  download: 'Download',
+  processingImage: 'Processing image',
+  generatingFile: 'Generating file…',
+  namingFile: 'Naming file…',
+  cancel: 'Cancel',
+  cancelling: 'Cancelling…',
+  statusQueued: 'Queued',
+  statusExtracting: 'Extracting',
+  statusDone: 'Done',
+  statusFailed: 'Failed',
+  statusCancelled: 'Cancelled',
+  reviewBtn: 'Review & Edit',
+  reviewTitle: 'Review extracted text',
+  reviewHint: 'Fix the text next to each image, then generate the document from your edits.',
+  discardReview: 'Back',
+  reviewPage: 'Page',
+  noBlocks: 'No text was found on this page.',
+  blockType: 'Block type',
+  blockHeading: 'Heading',
+  blockBody: 'Paragraph',
+  blockBullet: 'Bulleted list',
+  blockNumbered: 'Numbered list',
+  blockCaption: 'Caption',
+  blockTable: 'Table',
+  blockLevel: 'Level',
+  alignLeft: 'Align left',
+  alignCenter: 'Center',
+  alignRight: 'Align right',
+  splitBlock: 'Split at cursor',
+  mergeBlock: 'Merge with next block',
+  deleteBlock: 'Delete block',
+  addBlock: 'Add block',
+  tableHint: 'Tabs separate columns, new lines start rows.',
+  of: 'of',
+  readyToDownload: 'Ready to download',
+  conversionComplete: 'Conversion complete!',
+  downloadedAuto: 'Your file has been downloaded automatically.',
+  conversionFailed: 'Conversion failed. Please try again.',
+  resumeMissingPages: {
+    one: '{count} page was still uploading when the tab closed and was left out.',
+    other: '{count} pages were still uploading when the tab closed and were left out.',
+  },
+  footer: 'Privacy First • No Server Uploads',
+  uploadFromPhone: 'Upload from Phone',
+  scanQR: 'Scan this QR code with your phone to send photos',
+  sameWifi: 'Both devices must be on the same WiFi network',
+  orTypeUrl: 'Or type this URL on your phone:',
+  networkAddress: 'Network',
+  virtualInterface: 'virtual',
+  httpsHint: 'Start with HTTPS=true to scan with the phone camera',
+  connectedPhones: 'Connected phones',
+  addAnotherPhone: 'Scan with another phone to send from it too',
+  phoneOffline: 'Not connected',
+  waitingForPhotos: 'Waiting for photos…',
+  receivingPhotos: 'Receiving photos…',
+  phoneReconnecting: 'Connection lost — waiting for the phone to resume…',
+  photosAdded: {
+    one: '{count} photo added to SnapConvert',
+    other: '{count} photos added to SnapConvert',
+  },
+  doneContinue: 'Continue',
+  phoneError: 'Connection error',
+  phoneErrorDetail: 'Please close and try again.',
+  phoneInitializing: 'Setting up connection…',
+  phoneKeepsSending: 'Your phone can keep sending photos after you close this.',
+  autoExtractPhone: 'Extract pages as they arrive',
+  disconnectPhone: 'Disconnect',
+  phonesLinked: {
+    one: 'Phone connected',
+    other: '{count} phones connected',
+  },
+  fromPhone: 'From phone',
+  sendToPhone: 'Send to {device}',
+  sendingToPhone: 'Sending to {device}…',
+  sentToPhone: 'Sent to {device}',
+  sendToPhoneFailed: 'Couldn’t send to {device}, try again',
+  pairingCode: 'Code',
+  pairingCodeHint: 'Check that your phone shows the same code.',
+  qrExpired: 'This QR code has expired',
+  qrExpiredDetail: 'Create a new one to pair your phone.',
+  newQrCode: 'New QR code',
+  close: 'Close',
+  mobileTagline: 'Send photos to your PC',
+  mobileConnecting: 'Connecting to PC…',
+  mobileConnected: 'Connected! Select photos to send.',
+  mobileSendingFile: 'Sending {index}/{count}…',
+  mobileReconnecting: 'Connection lost — reconnecting to resume…',
+  mobileAllSent: 'All photos sent!',
+  mobileEnded: 'The PC ended this session.',
+  mobileFailed: 'Connection failed. Please scan the QR code again.',
+  mobileCheckCode: 'Check the PC shows this code',
+  mobileListedAs: 'Listed as “{label}”',
+  fromPc: 'From your PC',
+  share: 'Share',
+  mobileSelectPhotos: 'Select photos',
+  mobileAddMore: 'Add more photos',
+  scanWithCamera: 'Scan with camera',
+  photosSelected: {
+    one: '{count} photo selected',
+    other: '{count} photos selected',
+  },
+  sendPhotos: {
+    one: 'Send {count} photo to PC',
+    other: 'Send {count} photos to PC',
+  },
+  mobilePaused: 'Paused…',
+  mobileSendingPhotos: 'Sending photos…',
+  mobilePhotosSent: 'Photos sent!',
+  mobilePhotosSentDetail: 'They\'re already in SnapConvert on your PC.',
+  mobileSendMore: 'Send more photos',
+  mobileSessionEnded: 'Session ended',
+  mobileSessionEndedDetail: 'Scan a new QR code on your PC to send more photos.',
+  mobileConnectionLost: 'Connection lost',
+  mobileSameWifi: 'Make sure your phone and PC are on the same WiFi network.',
+  tryAgain: 'Try again',
+  mobileFooter: 'Peer-to-peer transfer • No cloud uploads',
+  mobileCloudBroker: 'Paired via PeerJS cloud',
+  closeCamera: 'Close camera',
+  cameraAuto: 'Auto',
+  cameraManual: 'Manual',
+  cameraUnsupported: 'This browser can’t use the camera here. The camera needs the page to be opened over HTTPS.',
+  cameraDenied: 'Camera access was blocked. Allow it in your browser settings and try again.',
+  cameraFailed: 'The camera could not be started.',
+  cameraShot: 'Shot {number}',
+  removeShot: 'Remove shot {number}',
+  retake: 'Retake',
+  takePhoto: 'Take photo',
+  cameraDone: 'Done ({count})',
+};
+
+export default en;
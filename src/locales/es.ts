@@ -0,0 +1,203 @@
+/**
+ * Spanish strings; keys and plural entries must match src/locales/en.ts.
+ */
+
+import type { Messages } from '../i18n';
+
+const es: Messages = {
+  subtitle: 'Extrae texto de tus imágenes y guárdalas como documentos profesionales en Word.',
+  dropImages: 'Suelta tus imágenes aquí',
+  addMore: 'Añadir más imágenes',
+  fileHint: 'Admite JPG, PNG, HEIC y WebP de hasta 10 MB cada uno, y PDF de hasta 100 MB',
+  importing: 'Convirtiendo archivos…',
+  filesRejected: 'Algunos archivos no se añadieron',
+  rejectTooLarge: 'Supera los {size} MB',
+  rejectUnsupported: 'No es un archivo JPG, PNG, HEIC, WebP o PDF',
+  rejectDuplicate: 'Ya añadido',
+  rejectConvertFailed: 'No se pudo convertir',
+  pdfPages: 'Páginas a importar',
+  pdfPagesHint: {
+    one: 'Este PDF tiene {count} página. Déjalo vacío para todas o escribe rangos como 1-3, 5.',
+    other: 'Este PDF tiene {count} páginas. Déjalo vacío para todas o escribe rangos como 1-3, 5.',
+  },
+  pdfPagesInvalid: 'Escribe números o rangos de página dentro del documento.',
+  pdfImport: {
+    one: 'Importar {count} página',
+    other: 'Importar {count} páginas',
+  },
+  pdfRendering: 'Renderizando páginas…',
+  pdfError: 'No se pudo abrir este PDF.',
+  selectedImages: 'Imágenes seleccionadas',
+  clearAll: 'Borrar todo',
+  sortByName: 'Ordenar por nombre',
+  sortByDate: 'Ordenar por fecha de captura',
+  sortByDevice: 'Agrupar por teléfono',
+  dragToReorder: 'Arrastra para reordenar',
+  movePage: 'Página {page}. Usa las flechas para moverla.',
+  converting: 'Extrayendo y convirtiendo…',
+  success: '¡Éxito!',
+  convertBtn: 'Convertir a {format}',
+  outputFormat: 'Formato de salida',
+  formatDocx: 'Word (DOCX)',
+  formatPdf: 'PDF (escaneo con búsqueda)',
+  formatPdfText: 'PDF (solo texto)',
+  formatMarkdown: 'Markdown',
+  formatHtml: 'HTML',
+  formatTxt: 'Texto sin formato (TXT)',
+  formatOdt: 'OpenDocument (ODT)',
+  ocrProvider: 'Reconocimiento de texto',
+  ocrGemini: 'Gemini (nube)',
+  ocrTesseract: 'Tesseract (sin conexión)',
+  imageSize: 'Tamaño de imagen',
+  imageSizeMax: 'Hasta {size}px',
+  imageSizeOriginal: 'Tamaño original',
+  showBefore: 'Antes',
+  showAfter: 'Después',
+  cropTitle: 'Recortar y enderezar',
+  cropHint: 'Arrastra las esquinas hasta los bordes de la página.',
+  cropLoadFailed: 'No se pudo abrir esta imagen.',
+  rotate: 'Girar 90°',
+  detectPage: 'Detectar página',
+  resetCrop: 'Imagen completa',
+  applyCrop: 'Aplicar',
+  saving: 'Guardando…',
+  undoEdit: 'Restaurar original',
+  cornerTopLeft: 'Esquina superior izquierda',
+  cornerTopRight: 'Esquina superior derecha',
+  cornerBottomRight: 'Esquina inferior derecha',
+  cornerBottomLeft: 'Esquina inferior izquierda',
+  extractTextBtn: 'Extraer texto',
+  extracting: 'Extrayendo texto…',
+  copyText: 'Copiar',
+  copiedText: '¡Copiado!',
+  download: 'Descargar',
+  processingImage: 'Procesando imagen',
+  generatingFile: 'Generando archivo…',
+  namingFile: 'Nombrando archivo…',
+  cancel: 'Cancelar',
+  cancelling: 'Cancelando…',
+  statusQueued: 'En cola',
+  statusExtracting: 'Extrayendo',
+  statusDone: 'Listo',
+  statusFailed: 'Error',
+  statusCancelled: 'Cancelado',
+  reviewBtn: 'Revisar y editar',
+  reviewTitle: 'Revisar el texto extraído',
+  reviewHint: 'Corrige el texto junto a cada imagen y genera el documento con tus cambios.',
+  discardReview: 'Volver',
+  reviewPage: 'Página',
+  noBlocks: 'No se encontró texto en esta página.',
+  blockType: 'Tipo de bloque',
+  blockHeading: 'Título',
+  blockBody: 'Párrafo',
+  blockBullet: 'Lista con viñetas',
+  blockNumbered: 'Lista numerada',
+  blockCaption: 'Pie de foto',
+  blockTable: 'Tabla',
+  blockLevel: 'Nivel',
+  alignLeft: 'Alinear a la izquierda',
+  alignCenter: 'Centrar',
+  alignRight: 'Alinear a la derecha',
+  splitBlock: 'Dividir en el cursor',
+  mergeBlock: 'Unir con el siguiente bloque',
+  deleteBlock: 'Eliminar bloque',
+  addBlock: 'Añadir bloque',
+  tableHint: 'Los tabuladores separan columnas y cada línea es una fila.',
+  of: 'de',
+  readyToDownload: 'Listo para descargar',
+  conversionComplete: '¡Conversión completa!',
+  downloadedAuto: 'Tu archivo se ha descargado automáticamente.',
+  conversionFailed: 'La conversión falló. Inténtalo de nuevo.',
+  resumeMissingPages: {
+    one: '{count} página aún se estaba subiendo cuando se cerró la pestaña y queda fuera.',
+    other: '{count} páginas aún se estaban subiendo cuando se cerró la pestaña y quedan fuera.',
+  },
+  footer: 'Privacidad ante todo • Sin subidas al servidor',
+  uploadFromPhone: 'Subir desde el teléfono',
+  scanQR: 'Escanea este código QR con tu teléfono para enviar fotos',
+  sameWifi: 'Ambos dispositivos deben estar en la misma red WiFi',
+  orTypeUrl: 'O escribe esta URL en tu teléfono:',
+  networkAddress: 'Red',
+  virtualInterface: 'virtual',
+  httpsHint: 'Inicia con HTTPS=true para escanear con la cámara del teléfono',
+  connectedPhones: 'Teléfonos conectados',
+  addAnotherPhone: 'Escanea con otro teléfono para enviar también desde él',
+  phoneOffline: 'Sin conexión',
+  waitingForPhotos: 'Esperando fotos…',
+  receivingPhotos: 'Recibiendo fotos…',
+  phoneReconnecting: 'Conexión perdida: esperando a que el teléfono continúe…',
+  photosAdded: {
+    one: '{count} foto añadida a SnapConvert',
+    other: '{count} fotos añadidas a SnapConvert',
+  },
+  doneContinue: 'Continuar',
+  phoneError: 'Error de conexión',
+  phoneErrorDetail: 'Por favor, cierra e inténtalo de nuevo.',
+  phoneInitializing: 'Configurando conexión…',
+  phoneKeepsSending: 'Tu teléfono puede seguir enviando fotos después de cerrar esto.',
+  autoExtractPhone: 'Extraer las páginas según llegan',
+  disconnectPhone: 'Desconectar',
+  phonesLinked: {
+    one: 'Teléfono conectado',
+    other: '{count} teléfonos conectados',
+  },
+  fromPhone: 'Desde el teléfono',
+  sendToPhone: 'Enviar a {device}',
+  sendingToPhone: 'Enviando a {device}…',
+  sentToPhone: 'Enviado a {device}',
+  sendToPhoneFailed: 'No se pudo enviar a {device}, inténtalo de nuevo',
+  pairingCode: 'Código',
+  pairingCodeHint: 'Comprueba que tu teléfono muestra el mismo código.',
+  qrExpired: 'Este código QR ha caducado',
+  qrExpiredDetail: 'Crea uno nuevo para emparejar tu teléfono.',
+  newQrCode: 'Nuevo código QR',
+  close: 'Cerrar',
+  mobileTagline: 'Envía fotos a tu PC',
+  mobileConnecting: 'Conectando con el PC…',
+  mobileConnected: '¡Conectado! Selecciona fotos para enviar.',
+  mobileSendingFile: 'Enviando {index}/{count}…',
+  mobileReconnecting: 'Conexión perdida — reconectando para continuar…',
+  mobileAllSent: '¡Todas las fotos enviadas!',
+  mobileEnded: 'El PC terminó esta sesión.',
+  mobileFailed: 'La conexión falló. Vuelve a escanear el código QR.',
+  mobileCheckCode: 'Comprueba que el PC muestra este código',
+  mobileListedAs: 'Aparece como «{label}»',
+  fromPc: 'Desde tu PC',
+  share: 'Compartir',
+  mobileSelectPhotos: 'Seleccionar fotos',
+  mobileAddMore: 'Añadir más fotos',
+  scanWithCamera: 'Escanear con la cámara',
+  photosSelected: {
+    one: '{count} foto seleccionada',
+    other: '{count} fotos seleccionadas',
+  },
+  sendPhotos: {
+    one: 'Enviar {count} foto al PC',
+    other: 'Enviar {count} fotos al PC',
+  },
+  mobilePaused: 'En pausa…',
+  mobileSendingPhotos: 'Enviando fotos…',
+  mobilePhotosSent: '¡Fotos enviadas!',
+  mobilePhotosSentDetail: 'Ya están en SnapConvert en tu PC.',
+  mobileSendMore: 'Enviar más fotos',
+  mobileSessionEnded: 'Sesión terminada',
+  mobileSessionEndedDetail: 'Escanea un nuevo código QR en tu PC para enviar más fotos.',
+  mobileConnectionLost: 'Conexión perdida',
+  mobileSameWifi: 'Asegúrate de que tu teléfono y tu PC están en la misma red WiFi.',
+  tryAgain: 'Reintentar',
+  mobileFooter: 'Transferencia directa • Sin subidas a la nube',
+  mobileCloudBroker: 'Emparejado mediante la nube de PeerJS',
+  closeCamera: 'Cerrar cámara',
+  cameraAuto: 'Auto',
+  cameraManual: 'Manual',
+  cameraUnsupported: 'Este navegador no puede usar la cámara aquí. La cámara necesita que la página se abra por HTTPS.',
+  cameraDenied: 'Se bloqueó el acceso a la cámara. Permítelo en los ajustes del navegador y vuelve a intentarlo.',
+  cameraFailed: 'No se pudo iniciar la cámara.',
+  cameraShot: 'Foto {number}',
+  removeShot: 'Quitar foto {number}',
+  retake: 'Repetir',
+  takePhoto: 'Tomar foto',
+  cameraDone: 'Listo ({count})',
+};
+
+export default es;
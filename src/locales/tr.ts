@@ -0,0 +1,203 @@
+/**
+ * Turkish strings; keys and plural entries must match src/locales/en.ts.
+ */
+
+import type { Messages } from '../i18n';
+
+const tr: Messages = {
+  subtitle: 'Görsellerinizdeki metni çıkarın ve profesyonel Word belgeleri olarak kaydedin.',
+  dropImages: 'Görsellerinizi buraya bırakın',
+  addMore: 'Daha fazla görsel ekle',
+  fileHint: 'JPG, PNG, HEIC ve WebP her biri en fazla 10 MB, PDF en fazla 100 MB olarak desteklenir',
+  importing: 'Dosyalar dönüştürülüyor…',
+  filesRejected: 'Bazı dosyalar eklenmedi',
+  rejectTooLarge: '{size} MB sınırını aşıyor',
+  rejectUnsupported: 'JPG, PNG, HEIC, WebP veya PDF dosyası değil',
+  rejectDuplicate: 'Zaten eklendi',
+  rejectConvertFailed: 'Dönüştürülemedi',
+  pdfPages: 'İçe aktarılacak sayfalar',
+  pdfPagesHint: {
+    one: 'Bu PDF {count} sayfa içeriyor. Tümü için boş bırakın veya 1-3, 5 gibi aralıklar girin.',
+    other: 'Bu PDF {count} sayfa içeriyor. Tümü için boş bırakın veya 1-3, 5 gibi aralıklar girin.',
+  },
+  pdfPagesInvalid: 'Belge içindeki sayfa numaralarını veya aralıklarını girin.',
+  pdfImport: {
+    one: '{count} sayfayı içe aktar',
+    other: '{count} sayfayı içe aktar',
+  },
+  pdfRendering: 'Sayfalar işleniyor…',
+  pdfError: 'Bu PDF açılamadı.',
+  selectedImages: 'Seçilen Görseller',
+  clearAll: 'Tümünü temizle',
+  sortByName: 'Ada göre sırala',
+  sortByDate: 'Çekim tarihine göre sırala',
+  sortByDevice: 'Telefona göre grupla',
+  dragToReorder: 'Sıralamak için sürükleyin',
+  movePage: 'Sayfa {page}. Taşımak için ok tuşlarını kullanın.',
+  converting: 'Çıkarılıyor ve dönüştürülüyor…',
+  success: 'Başarılı!',
+  convertBtn: 'Dönüştür: {format}',
+  outputFormat: 'Çıktı biçimi',
+  formatDocx: 'Word (DOCX)',
+  formatPdf: 'PDF (aranabilir tarama)',
+  formatPdfText: 'PDF (yalnızca metin)',
+  formatMarkdown: 'Markdown',
+  formatHtml: 'HTML',
+  formatTxt: 'Düz metin (TXT)',
+  formatOdt: 'OpenDocument (ODT)',
+  ocrProvider: 'Metin tanıma',
+  ocrGemini: 'Gemini (bulut)',
+  ocrTesseract: 'Tesseract (çevrimdışı)',
+  imageSize: 'Görsel boyutu',
+  imageSizeMax: 'En fazla {size}px',
+  imageSizeOriginal: 'Orijinal boyut',
+  showBefore: 'Önce',
+  showAfter: 'Sonra',
+  cropTitle: 'Kırp ve düzelt',
+  cropHint: 'Köşeleri sayfanın kenarlarına sürükleyin.',
+  cropLoadFailed: 'Bu görsel açılamadı.',
+  rotate: '90° döndür',
+  detectPage: 'Sayfayı algıla',
+  resetCrop: 'Tüm görsel',
+  applyCrop: 'Uygula',
+  saving: 'Kaydediliyor…',
+  undoEdit: 'Orijinale dön',
+  cornerTopLeft: 'Sol üst köşe',
+  cornerTopRight: 'Sağ üst köşe',
+  cornerBottomRight: 'Sağ alt köşe',
+  cornerBottomLeft: 'Sol alt köşe',
+  extractTextBtn: 'Metin Çıkar',
+  extracting: 'Metin çıkarılıyor…',
+  copyText: 'Kopyala',
+  copiedText: 'Kopyalandı!',
+  download: 'İndir',
+  processingImage: 'Görsel işleniyor',
+  generatingFile: 'Dosya oluşturuluyor…',
+  namingFile: 'Dosya adlandırılıyor…',
+  cancel: 'İptal',
+  cancelling: 'İptal ediliyor…',
+  statusQueued: 'Sırada',
+  statusExtracting: 'Çıkarılıyor',
+  statusDone: 'Tamam',
+  statusFailed: 'Başarısız',
+  statusCancelled: 'İptal edildi',
+  reviewBtn: 'Gözden Geçir ve Düzenle',
+  reviewTitle: 'Çıkarılan metni gözden geçirin',
+  reviewHint: 'Her görselin yanındaki metni düzeltin, ardından belgeyi düzenlemelerinizden oluşturun.',
+  discardReview: 'Geri',
+  reviewPage: 'Sayfa',
+  noBlocks: 'Bu sayfada metin bulunamadı.',
+  blockType: 'Blok türü',
+  blockHeading: 'Başlık',
+  blockBody: 'Paragraf',
+  blockBullet: 'Madde işaretli liste',
+  blockNumbered: 'Numaralı liste',
+  blockCaption: 'Açıklama',
+  blockTable: 'Tablo',
+  blockLevel: 'Düzey',
+  alignLeft: 'Sola hizala',
+  alignCenter: 'Ortala',
+  alignRight: 'Sağa hizala',
+  splitBlock: 'İmleçten böl',
+  mergeBlock: 'Sonraki blokla birleştir',
+  deleteBlock: 'Bloğu sil',
+  addBlock: 'Blok ekle',
+  tableHint: 'Sekmeler sütunları, satır sonları satırları ayırır.',
+  of: '/',
+  readyToDownload: 'İndirmeye hazır',
+  conversionComplete: 'Dönüştürme tamamlandı!',
+  downloadedAuto: 'Dosyanız otomatik olarak indirildi.',
+  conversionFailed: 'Dönüştürme başarısız oldu. Lütfen tekrar deneyin.',
+  resumeMissingPages: {
+    one: 'Sekme kapatıldığında {count} sayfa hâlâ yükleniyordu ve dışarıda kaldı.',
+    other: 'Sekme kapatıldığında {count} sayfa hâlâ yükleniyordu ve dışarıda kaldı.',
+  },
+  footer: 'Önce Gizlilik • Sunucuya Yükleme Yok',
+  uploadFromPhone: 'Telefondan Yükle',
+  scanQR: 'Fotoğraf göndermek için telefonunuzla bu QR kodu okutun',
+  sameWifi: 'Her iki cihaz da aynı WiFi ağında olmalıdır',
+  orTypeUrl: 'Veya bu URL\'yi telefonunuza yazın:',
+  networkAddress: 'Ağ',
+  virtualInterface: 'sanal',
+  httpsHint: 'Telefon kamerasıyla taramak için HTTPS=true ile başlatın',
+  connectedPhones: 'Bağlı telefonlar',
+  addAnotherPhone: 'Başka bir telefondan da göndermek için onunla okutun',
+  phoneOffline: 'Bağlı değil',
+  waitingForPhotos: 'Fotoğraflar bekleniyor…',
+  receivingPhotos: 'Fotoğraflar alınıyor…',
+  phoneReconnecting: 'Bağlantı koptu — telefonun devam etmesi bekleniyor…',
+  photosAdded: {
+    one: '{count} fotoğraf SnapConvert\'e eklendi',
+    other: '{count} fotoğraf SnapConvert\'e eklendi',
+  },
+  doneContinue: 'Devam',
+  phoneError: 'Bağlantı hatası',
+  phoneErrorDetail: 'Lütfen kapatıp tekrar deneyin.',
+  phoneInitializing: 'Bağlantı kuruluyor…',
+  phoneKeepsSending: 'Bunu kapattıktan sonra da telefonunuz fotoğraf göndermeye devam edebilir.',
+  autoExtractPhone: 'Sayfaları geldikçe çıkar',
+  disconnectPhone: 'Bağlantıyı kes',
+  phonesLinked: {
+    one: 'Telefon bağlı',
+    other: '{count} telefon bağlı',
+  },
+  fromPhone: 'Telefondan',
+  sendToPhone: '{device} cihazına gönder',
+  sendingToPhone: '{device} cihazına gönderiliyor…',
+  sentToPhone: '{device} cihazına gönderildi',
+  sendToPhoneFailed: '{device} cihazına gönderilemedi, tekrar deneyin',
+  pairingCode: 'Kod',
+  pairingCodeHint: 'Telefonunuzda aynı kodun göründüğünü kontrol edin.',
+  qrExpired: 'Bu QR kodunun süresi doldu',
+  qrExpiredDetail: 'Telefonunuzu eşleştirmek için yeni bir kod oluşturun.',
+  newQrCode: 'Yeni QR kodu',
+  close: 'Kapat',
+  mobileTagline: 'Bilgisayarınıza fotoğraf gönderin',
+  mobileConnecting: 'Bilgisayara bağlanılıyor…',
+  mobileConnected: 'Bağlandı! Göndermek için fotoğraf seçin.',
+  mobileSendingFile: 'Gönderiliyor {index}/{count}…',
+  mobileReconnecting: 'Bağlantı koptu — devam etmek için yeniden bağlanılıyor…',
+  mobileAllSent: 'Tüm fotoğraflar gönderildi!',
+  mobileEnded: 'Bilgisayar bu oturumu sonlandırdı.',
+  mobileFailed: 'Bağlantı kurulamadı. Lütfen QR kodu tekrar okutun.',
+  mobileCheckCode: 'Bilgisayarda bu kodun göründüğünü kontrol edin',
+  mobileListedAs: '“{label}” olarak listelendi',
+  fromPc: 'Bilgisayarınızdan',
+  share: 'Paylaş',
+  mobileSelectPhotos: 'Fotoğraf seç',
+  mobileAddMore: 'Daha fazla fotoğraf ekle',
+  scanWithCamera: 'Kamerayla tara',
+  photosSelected: {
+    one: '{count} fotoğraf seçildi',
+    other: '{count} fotoğraf seçildi',
+  },
+  sendPhotos: {
+    one: '{count} fotoğrafı bilgisayara gönder',
+    other: '{count} fotoğrafı bilgisayara gönder',
+  },
+  mobilePaused: 'Duraklatıldı…',
+  mobileSendingPhotos: 'Fotoğraflar gönderiliyor…',
+  mobilePhotosSent: 'Fotoğraflar gönderildi!',
+  mobilePhotosSentDetail: 'Fotoğraflar bilgisayarınızdaki SnapConvert\'e eklendi.',
+  mobileSendMore: 'Daha fazla fotoğraf gönder',
+  mobileSessionEnded: 'Oturum sona erdi',
+  mobileSessionEndedDetail: 'Daha fazla fotoğraf göndermek için bilgisayarınızda yeni bir QR kodu okutun.',
+  mobileConnectionLost: 'Bağlantı koptu',
+  mobileSameWifi: 'Telefonunuzun ve bilgisayarınızın aynı WiFi ağında olduğundan emin olun.',
+  tryAgain: 'Tekrar dene',
+  mobileFooter: 'Eşler arası aktarım • Buluta yükleme yok',
+  mobileCloudBroker: 'PeerJS bulutu üzerinden eşlendi',
+  closeCamera: 'Kamerayı kapat',
+  cameraAuto: 'Otomatik',
+  cameraManual: 'Manuel',
+  cameraUnsupported: 'Bu tarayıcı burada kamerayı kullanamıyor. Kamera için sayfanın HTTPS üzerinden açılması gerekir.',
+  cameraDenied: 'Kamera erişimi engellendi. Tarayıcı ayarlarından izin verip tekrar deneyin.',
+  cameraFailed: 'Kamera başlatılamadı.',
+  cameraShot: 'Çekim {number}',
+  removeShot: '{number}. çekimi kaldır',
+  retake: 'Yeniden çek',
+  takePhoto: 'Fotoğraf çek',
+  cameraDone: 'Bitti ({count})',
+};
+
+export default tr;
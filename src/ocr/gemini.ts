@@ -0,0 +1,45 @@
+/**
+ * Gemini OCR provider — posts each image to the local server, which calls
+ * the Gemini API with a key that never leaves the server. Batches go through
+ * the server's persistent job queue.
+ */
+
+import { getJson, postJson } from '../api';
+import { normalizeBlocks } from '../blocks';
+import { runJob } from '../jobs';
+import type { OcrProvider } from './types';
+
+const fileToBase64 = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = () => reject(reader.error ?? new Error(`Could not read ${file.name}`));
+    reader.onabort = () => reject(new Error(`Reading ${file.name} was aborted`));
+    reader.readAsDataURL(file);
+  });
+
+export const geminiProvider: OcrProvider = {
+  id: 'gemini',
+  labelKey: 'ocrGemini',
+  maxConcurrency: 4,
+  isAvailable: async () => {
+    try {
+      const { gemini } = await getJson<{ gemini: boolean }>('/health');
+      return gemini;
+    } catch {
+      return false;
+    }
+  },
+  extractBlocks: async (image, signal) => {
+    const { blocks } = await postJson<{ blocks: unknown }>('/extract', {
+      data: await fileToBase64(image),
+      mimeType: image.type,
+    }, signal);
+    return normalizeBlocks(blocks);
+  },
+  extractBatch: runJob,
+  nameDocument: async (text) => {
+    const { name } = await postJson<{ name: string }>('/filename', { text: text.slice(0, 500) });
+    return name;
+  },
+};
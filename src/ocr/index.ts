@@ -0,0 +1,33 @@
+/**
+ * OCR provider registry. The provider picker in the Controls section lists
+ * whatever is registered here.
+ */
+
+import type { OcrProvider, OcrProviderId } from './types';
+import { geminiProvider } from './gemini';
+import { tesseractProvider } from './tesseract';
+
+export type { BatchOptions, OcrProvider, OcrProviderId } from './types';
+
+const registry = new Map<OcrProviderId, OcrProvider>();
+
+export const registerOcrProvider = (provider: OcrProvider) => {
+  registry.set(provider.id, provider);
+};
+
+export const getOcrProvider = (id: OcrProviderId): OcrProvider => {
+  const provider = registry.get(id);
+  if (!provider) throw new Error(`Unknown OCR provider: ${id}`);
+  return provider;
+};
+
+export const listOcrProviders = (): OcrProvider[] => Array.from(registry.values());
+
+/** Availability of every registered provider, checked in parallel. */
+export const checkOcrProviders = async (): Promise<Record<OcrProviderId, boolean>> => {
+  const providers = listOcrProviders();
+  const available = await Promise.all(providers.map(p => p.isAvailable()));
+  return Object.fromEntries(providers.map((p, i) => [p.id, available[i]])) as Record<OcrProviderId, boolean>;
+};
+
+[geminiProvider, tesseractProvider].forEach(registerOcrProvider);
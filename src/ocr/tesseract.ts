@@ -0,0 +1,116 @@
+/**
+ * Tesseract OCR provider — runs a WASM Tesseract build in a web worker.
+ * The worker, core and language data are served from /tesseract/ by the
+ * Vite plugin in vite.config.ts, so nothing is fetched from the internet.
+ */
+
+import { createWorker, OEM } from 'tesseract.js';
+import type { Worker, Paragraph, Bbox } from 'tesseract.js';
+import { textDirection } from '../blocks';
+import type { Alignment, TextBlock } from '../types';
+import type { OcrProvider } from './types';
+
+const LANGUAGES = ['eng', 'tur', 'spa'];
+
+// How far (as a share of the text area width) a paragraph may sit off the
+// centre line and still count as centred.
+const CENTER_TOLERANCE = 0.06;
+const HEADING_HEIGHT_RATIO = 1.5;
+
+let workerPromise: Promise<Worker> | null = null;
+
+const getWorker = (): Promise<Worker> => {
+  if (!workerPromise) {
+    const base = new URL('/tesseract/', window.location.href).href;
+    workerPromise = createWorker(LANGUAGES, OEM.LSTM_ONLY, {
+      workerPath: `${base}worker.min.js`,
+      corePath: `${base}core`,
+      langPath: `${base}lang`,
+      workerBlobURL: false,
+    });
+    workerPromise.catch(() => { workerPromise = null; });
+  }
+  return workerPromise;
+};
+
+const imageSize = async (image: File): Promise<{ width: number; height: number }> => {
+  const bitmap = await createImageBitmap(image);
+  const size = { width: bitmap.width, height: bitmap.height };
+  bitmap.close();
+  return size;
+};
+
+const guessAlignment = (bbox: Bbox, area: Bbox): Alignment => {
+  const areaWidth = area.x1 - area.x0 || 1;
+  const leftGap = (bbox.x0 - area.x0) / areaWidth;
+  const rightGap = (area.x1 - bbox.x1) / areaWidth;
+  if (Math.abs(leftGap - rightGap) < CENTER_TOLERANCE && leftGap > CENTER_TOLERANCE) return 'center';
+  if (rightGap < CENTER_TOLERANCE && leftGap > 0.25) return 'right';
+  return 'left';
+};
+
+const lineHeight = (paragraph: Paragraph): number =>
+  Math.max(...paragraph.lines.map(l => l.rowAttributes?.rowHeight || l.bbox.y1 - l.bbox.y0));
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)] || 0;
+};
+
+export const tesseractProvider: OcrProvider = {
+  id: 'tesseract',
+  labelKey: 'ocrTesseract',
+  // One worker; running more recognitions at once would only queue in it.
+  maxConcurrency: 1,
+  isAvailable: async () => true,
+  // A running recognition can't be interrupted without killing the shared
+  // worker, so an abort is honoured before and after it instead.
+  extractBlocks: async (image, signal) => {
+    const worker = await getWorker();
+    signal?.throwIfAborted();
+    const [{ data }, { width, height }] = await Promise.all([
+      worker.recognize(image, {}, { blocks: true }),
+      imageSize(image),
+    ]);
+    signal?.throwIfAborted();
+
+    const paragraphs = (data.blocks || [])
+      .flatMap(b => b.paragraphs)
+      .filter(p => p.text.trim());
+    if (paragraphs.length === 0) return [];
+
+    // Bounds of all recognised text, used as the reference for alignment.
+    const area: Bbox = {
+      x0: Math.min(...paragraphs.map(p => p.bbox.x0)),
+      y0: Math.min(...paragraphs.map(p => p.bbox.y0)),
+      x1: Math.max(...paragraphs.map(p => p.bbox.x1)),
+      y1: Math.max(...paragraphs.map(p => p.bbox.y1)),
+    };
+    const bodyHeight = median(paragraphs.map(lineHeight));
+
+    return paragraphs.map((p): TextBlock => {
+      const text = p.lines.map(l => l.text.trim()).filter(Boolean).join('\n');
+      const isHeading = p.lines.length <= 2 && bodyHeight > 0 && lineHeight(p) >= bodyHeight * HEADING_HEIGHT_RATIO;
+      return {
+        text,
+        alignment: guessAlignment(p.bbox, area),
+        direction: textDirection(text),
+        type: isHeading ? 'heading' : 'body',
+        ...(isHeading && { level: lineHeight(p) >= bodyHeight * 2 ? 1 : 2 }),
+        box: [
+          Math.round((p.bbox.y0 / height) * 1000),
+          Math.round((p.bbox.x0 / width) * 1000),
+          Math.round((p.bbox.y1 / height) * 1000),
+          Math.round((p.bbox.x1 / width) * 1000),
+        ],
+      };
+    });
+  },
+  // No model to summarise with, so use the first few words of the text.
+  nameDocument: async (text) =>
+    text
+      .split(/\s+/)
+      .filter(word => /\p{L}{3,}/u.test(word))
+      .slice(0, 4)
+      .join('-'),
+};
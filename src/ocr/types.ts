@@ -0,0 +1,33 @@
+/**
+ * OCR provider contract: recognise one image into blocks and suggest a
+ * document name from the recognised text.
+ */
+
+import type { TextKey } from '../i18n';
+import type { ImageStatus, PartialPages, TextBlock } from '../types';
+
+export type OcrProviderId = 'gemini' | 'tesseract';
+
+export interface BatchOptions {
+  signal: AbortSignal;
+  /** Called whenever one image changes state; `index` is its position in the batch. */
+  onImageStatus: (index: number, status: ImageStatus) => void;
+}
+
+export interface OcrProvider {
+  id: OcrProviderId;
+  /** Translation key for the provider name shown in the picker. */
+  labelKey: TextKey;
+  /** Whether the provider can run right now (e.g. the server has its credentials). */
+  isAvailable: () => Promise<boolean>;
+  /** How many images may be extracted at once with `extractBlocks`. */
+  maxConcurrency: number;
+  extractBlocks: (image: File, signal?: AbortSignal) => Promise<TextBlock[]>;
+  /**
+   * Optional whole-batch extraction, for providers that queue work
+   * elsewhere. On abort it resolves with whatever finished, null elsewhere.
+   */
+  extractBatch?: (images: File[], options: BatchOptions) => Promise<PartialPages>;
+  /** A short free-form name for the document; callers sanitise it. */
+  nameDocument: (text: string) => Promise<string>;
+}
@@ -0,0 +1,73 @@
+/**
+ * Pairing between the PC and a phone. The QR code carries a one-time
+ * secret; the phone proves it knows the secret before the PC accepts any
+ * files, and both screens show a short code so the user can confirm they
+ * are talking to each other. Proof and code are bound to the DTLS
+ * fingerprints of the WebRTC connection, so a relay sitting between the two
+ * (e.g. a hostile signalling server) ends up with codes that don't match.
+ */
+
+import type { DataConnection } from 'peerjs';
+import { sha256 } from './sha256';
+
+// How long a QR code can be scanned before it has to be regenerated
+export const PAIRING_TTL_MS = 5 * 60_000;
+// How long a new connection has to present its proof
+export const HELLO_TIMEOUT_MS = 10_000;
+
+// Phone → PC, as the first message on a connection
+export interface HelloMessage {
+  type: 'hello';
+  proof: string;
+  // What the phone calls itself, e.g. "iPhone"; the PC may add a number
+  label?: string;
+}
+
+// PC → phone once the proof checks out, with the name the PC lists it under
+export interface WelcomeMessage {
+  type: 'welcome';
+  label: string;
+}
+
+// PC → phone when the user ends the session on the PC; the phone stops reconnecting
+export interface ByeMessage {
+  type: 'bye';
+}
+
+export const isHelloMessage = (value: unknown): value is HelloMessage =>
+  typeof value === 'object' && value !== null
+  && (value as Record<string, unknown>).type === 'hello'
+  && typeof (value as Record<string, unknown>).proof === 'string'
+  && ['string', 'undefined'].includes(typeof (value as Record<string, unknown>).label);
+
+export const isWelcomeMessage = (value: unknown): value is WelcomeMessage =>
+  typeof value === 'object' && value !== null
+  && (value as Record<string, unknown>).type === 'welcome'
+  && typeof (value as Record<string, unknown>).label === 'string';
+
+export const isByeMessage = (value: unknown): value is ByeMessage =>
+  typeof value === 'object' && value !== null && (value as Record<string, unknown>).type === 'bye';
+
+/** 128 random bits as hex. getRandomValues works on plain-HTTP pages too. */
+export const createPairingSecret = () =>
+  Array.from(crypto.getRandomValues(new Uint8Array(16)), b => b.toString(16).padStart(2, '0')).join('');
+
+/** Both ends' DTLS fingerprints, in the same order on either side. */
+const connectionFingerprints = (conn: DataConnection) => {
+  const pc = conn.peerConnection;
+  const sdp = `${pc?.localDescription?.sdp ?? ''}\n${pc?.remoteDescription?.sdp ?? ''}`;
+  const fingerprints = [...sdp.matchAll(/^a=fingerprint:(.+)$/gm)].map(match => match[1].trim().toLowerCase());
+  return [...new Set(fingerprints)].sort().join(',');
+};
+
+const digest = (secret: string, purpose: string, conn: DataConnection) =>
+  sha256(new TextEncoder().encode(`${purpose}|${secret}|${connectionFingerprints(conn)}`).buffer as ArrayBuffer);
+
+export const pairingProof = (secret: string, conn: DataConnection) => digest(secret, 'proof', conn);
+
+/** Six digits shown as "123 456" on both screens. */
+export const confirmationCode = async (secret: string, conn: DataConnection) => {
+  const hex = await digest(secret, 'code', conn);
+  const digits = (parseInt(hex.slice(0, 8), 16) % 1_000_000).toString().padStart(6, '0');
+  return `${digits.slice(0, 3)} ${digits.slice(3)}`;
+};
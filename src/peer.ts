@@ -0,0 +1,34 @@
+/**
+ * PeerJS setup shared by the PC and phone pages. Signalling goes through
+ * the PeerServer that server.ts hosts on the same origin as the page, so
+ * both ends always meet on the same server. Building with
+ * PEER_BROKER=cloud switches to the public PeerJS broker instead, for
+ * deployments without server.ts.
+ */
+
+import Peer from 'peerjs';
+
+// Matches PEER_PATH in server/signaling.ts
+const PEER_PATH = '/peerjs';
+
+export const usesCloudBroker = process.env.PEER_BROKER === 'cloud';
+
+// Pause before getting back on the broker after losing it
+export const BROKER_RETRY_MS = 2000;
+
+// Errors that leave the peer unusable. The rest, such as a lost broker
+// socket, come with a 'disconnected' event and leave data connections up.
+const FATAL_PEER_ERRORS = ['browser-incompatible', 'invalid-id', 'invalid-key', 'server-error', 'ssl-unavailable', 'unavailable-id'];
+
+export const isFatalPeerError = (error: { type: string }) => FATAL_PEER_ERRORS.includes(error.type);
+
+export const createPeer = (): Peer => {
+  if (usesCloudBroker) return new Peer();
+  const secure = window.location.protocol === 'https:';
+  return new Peer({
+    host: window.location.hostname,
+    port: Number(window.location.port) || (secure ? 443 : 80),
+    path: PEER_PATH,
+    secure,
+  });
+};
@@ -0,0 +1,250 @@
+/**
+ * Geometry for the crop tool: quarter-turn rotation, perspective warp of a
+ * quadrilateral onto a rectangle, and a rough page-corner detector.
+ * Corners are stored as fractions of the image size so they survive
+ * rescaling between the on-screen preview and the full-size image.
+ */
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/** Corners in order: top-left, top-right, bottom-right, bottom-left. */
+export type Quad = [Point, Point, Point, Point];
+
+export const FULL_QUAD: Quad = [
+  { x: 0, y: 0 },
+  { x: 1, y: 0 },
+  { x: 1, y: 1 },
+  { x: 0, y: 1 },
+];
+
+// Upper bound for the warped output's longest side
+const MAX_OUTPUT_SIDE = 4096;
+// Working size for corner detection; small enough that text blurs away
+const DETECT_SIDE = 160;
+
+/** Rotate a quad 90° clockwise along with its image. */
+export const rotateQuad = (quad: Quad): Quad => {
+  const [tl, tr, br, bl] = quad.map(({ x, y }) => ({ x: 1 - y, y: x }));
+  // The old bottom-left corner is now the top-left one
+  return [bl, tl, tr, br];
+};
+
+/** Draw an image turned clockwise by a number of quarter turns, optionally scaled down. */
+export const drawRotated = (
+  image: CanvasImageSource & { width: number; height: number },
+  quarterTurns: number,
+  maxSide = Infinity,
+): HTMLCanvasElement => {
+  const turns = ((quarterTurns % 4) + 4) % 4;
+  const scale = Math.min(1, maxSide / Math.max(image.width, image.height));
+  const width = Math.round(image.width * scale);
+  const height = Math.round(image.height * scale);
+  const swap = turns % 2 === 1;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = swap ? height : width;
+  canvas.height = swap ? width : height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate((turns * Math.PI) / 2);
+  ctx.drawImage(image, -width / 2, -height / 2, width, height);
+  return canvas;
+};
+
+/**
+ * Solve for the 3×3 homography (as 8 coefficients, h33 = 1) that maps each
+ * `from` point onto the matching `to` point.
+ */
+export const solveHomography = (from: Point[], to: Point[]): number[] => {
+  const rows: number[][] = [];
+  from.forEach(({ x, y }, i) => {
+    const { x: u, y: v } = to[i];
+    rows.push([x, y, 1, 0, 0, 0, -u * x, -u * y, u]);
+    rows.push([0, 0, 0, x, y, 1, -v * x, -v * y, v]);
+  });
+
+  // Gaussian elimination with partial pivoting on the augmented matrix
+  for (let col = 0; col < 8; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < 8; r++) {
+      if (Math.abs(rows[r][col]) > Math.abs(rows[pivot][col])) pivot = r;
+    }
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+    if (Math.abs(rows[col][col]) < 1e-12) throw new Error('Corners are degenerate');
+
+    for (let r = 0; r < 8; r++) {
+      if (r === col) continue;
+      const factor = rows[r][col] / rows[col][col];
+      for (let c = col; c < 9; c++) rows[r][c] -= factor * rows[col][c];
+    }
+  }
+  return rows.map((row, i) => row[8] / row[i]);
+};
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/** Warp the region inside `quad` onto an upright rectangle. */
+export const warpQuad = (source: HTMLCanvasElement, quad: Quad): HTMLCanvasElement => {
+  const { width: sw, height: sh } = source;
+  const corners = quad.map(p => ({ x: p.x * sw, y: p.y * sh }));
+  const [tl, tr, br, bl] = corners;
+
+  let width = Math.max(distance(tl, tr), distance(bl, br));
+  let height = Math.max(distance(tl, bl), distance(tr, br));
+  const scale = Math.min(1, MAX_OUTPUT_SIDE / Math.max(width, height));
+  width = Math.max(1, Math.round(width * scale));
+  height = Math.max(1, Math.round(height * scale));
+
+  // Map output pixels back into the source and sample bilinearly
+  const [a, b, c, d, e, f, g, h] = solveHomography(
+    [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width, y: height }, { x: 0, y: height }],
+    corners,
+  );
+  const src = source.getContext('2d')!.getImageData(0, 0, sw, sh).data;
+
+  const output = document.createElement('canvas');
+  output.width = width;
+  output.height = height;
+  const ctx = output.getContext('2d')!;
+  const image = ctx.createImageData(width, height);
+  const out = image.data;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const w = g * x + h * y + 1;
+      const sx = Math.min(Math.max((a * x + b * y + c) / w, 0), sw - 1);
+      const sy = Math.min(Math.max((d * x + e * y + f) / w, 0), sh - 1);
+      const x0 = Math.floor(sx);
+      const y0 = Math.floor(sy);
+      const x1 = Math.min(x0 + 1, sw - 1);
+      const y1 = Math.min(y0 + 1, sh - 1);
+      const fx = sx - x0;
+      const fy = sy - y0;
+      const i00 = (y0 * sw + x0) * 4;
+      const i10 = (y0 * sw + x1) * 4;
+      const i01 = (y1 * sw + x0) * 4;
+      const i11 = (y1 * sw + x1) * 4;
+      const o = (y * width + x) * 4;
+      for (let ch = 0; ch < 3; ch++) {
+        const top = src[i00 + ch] + (src[i10 + ch] - src[i00 + ch]) * fx;
+        const bottom = src[i01 + ch] + (src[i11 + ch] - src[i01 + ch]) * fx;
+        out[o + ch] = top + (bottom - top) * fy;
+      }
+      out[o + 3] = 255;
+    }
+  }
+
+  ctx.putImageData(image, 0, 0);
+  return output;
+};
+
+/** Threshold separating dark and light pixels, by Otsu's method. */
+const otsu = (gray: Uint8Array): number => {
+  const histogram = new Array(256).fill(0);
+  gray.forEach(v => histogram[v]++);
+  const total = gray.length;
+  const sum = histogram.reduce((acc, count, v) => acc + count * v, 0);
+
+  let best = 128;
+  let bestVariance = 0;
+  let weightBelow = 0;
+  let sumBelow = 0;
+  for (let t = 0; t < 256; t++) {
+    weightBelow += histogram[t];
+    if (weightBelow === 0) continue;
+    const weightAbove = total - weightBelow;
+    if (weightAbove === 0) break;
+    sumBelow += t * histogram[t];
+    const meanBelow = sumBelow / weightBelow;
+    const meanAbove = (sum - sumBelow) / weightAbove;
+    const variance = weightBelow * weightAbove * (meanBelow - meanAbove) ** 2;
+    if (variance > bestVariance) {
+      bestVariance = variance;
+      best = t;
+    }
+  }
+  return best;
+};
+
+const quadArea = (quad: Quad): number =>
+  Math.abs(quad.reduce((acc, p, i) => {
+    const next = quad[(i + 1) % 4];
+    return acc + p.x * next.y - next.x * p.y;
+  }, 0)) / 2;
+
+/**
+ * Suggest page corners, assuming a light page on a darker background. The
+ * light region nearest the centre is taken as the page and its extreme
+ * points as corners. Returns null when nothing page-like stands out.
+ */
+export const detectQuad = (image: HTMLCanvasElement): Quad | null => {
+  const small = drawRotated(image, 0, DETECT_SIDE);
+  const { width, height } = small;
+  const { data } = small.getContext('2d')!.getImageData(0, 0, width, height);
+
+  const gray = new Uint8Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = Math.round(0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]);
+  }
+  const threshold = otsu(gray);
+  const light = (i: number) => gray[i] > threshold;
+
+  // Seed from the light pixel closest to the centre
+  let seed = -1;
+  let seedDistance = Infinity;
+  for (let i = 0; i < gray.length; i++) {
+    if (!light(i)) continue;
+    const dx = (i % width) - width / 2;
+    const dy = Math.floor(i / width) - height / 2;
+    const d = dx * dx + dy * dy;
+    if (d < seedDistance) {
+      seedDistance = d;
+      seed = i;
+    }
+  }
+  if (seed < 0) return null;
+
+  // Flood fill the light region, tracking its extreme points
+  const visited = new Uint8Array(gray.length);
+  const stack = [seed];
+  visited[seed] = 1;
+  const extremes = { tl: seed, tr: seed, br: seed, bl: seed };
+  const sumOf = (i: number) => (i % width) + Math.floor(i / width);
+  const diffOf = (i: number) => (i % width) - Math.floor(i / width);
+
+  while (stack.length > 0) {
+    const i = stack.pop()!;
+    if (sumOf(i) < sumOf(extremes.tl)) extremes.tl = i;
+    if (sumOf(i) > sumOf(extremes.br)) extremes.br = i;
+    if (diffOf(i) > diffOf(extremes.tr)) extremes.tr = i;
+    if (diffOf(i) < diffOf(extremes.bl)) extremes.bl = i;
+
+    const x = i % width;
+    const neighbours = [
+      x > 0 ? i - 1 : -1,
+      x < width - 1 ? i + 1 : -1,
+      i - width,
+      i + width,
+    ];
+    neighbours.forEach(n => {
+      if (n >= 0 && n < gray.length && !visited[n] && light(n)) {
+        visited[n] = 1;
+        stack.push(n);
+      }
+    });
+  }
+
+  const toPoint = (i: number): Point => ({
+    x: ((i % width) + 0.5) / width,
+    y: (Math.floor(i / width) + 0.5) / height,
+  });
+  const quad: Quad = [toPoint(extremes.tl), toPoint(extremes.tr), toPoint(extremes.br), toPoint(extremes.bl)];
+
+  // Too small to be the page, or so large the photo is already cropped
+  const area = quadArea(quad);
+  return area > 0.2 && area < 0.95 ? quad : null;
+};
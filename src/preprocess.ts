@@ -0,0 +1,68 @@
+/**
+ * Client-side image preprocessing — runs each photo through a worker that
+ * applies EXIF orientation, contrast normalisation, deskew and downscaling
+ * before it is sent for extraction.
+ */
+
+export interface PreprocessOptions {
+  /** Longest side in pixels after downscaling; 0 keeps the original size. */
+  maxDimension: number;
+  normalize: boolean;
+  grayscale: boolean;
+  deskew: boolean;
+}
+
+export interface PreprocessRequest {
+  id: number;
+  file: File;
+  options: PreprocessOptions;
+}
+
+export type PreprocessResponse =
+  | { id: number; blob: Blob; error?: undefined }
+  | { id: number; error: string; blob?: undefined };
+
+export const MAX_DIMENSION_CHOICES = [1600, 2048, 3072, 0];
+
+export const DEFAULT_PREPROCESS: PreprocessOptions = {
+  maxDimension: 2048,
+  normalize: true,
+  grayscale: true,
+  deskew: true,
+};
+
+let worker: Worker | null = null;
+let nextId = 0;
+const pending = new Map<number, { resolve: (blob: Blob) => void; reject: (error: Error) => void }>();
+
+const getWorker = (): Worker => {
+  if (!worker) {
+    worker = new Worker(new URL('./preprocess.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<PreprocessResponse>) => {
+      const request = pending.get(event.data.id);
+      if (!request) return;
+      pending.delete(event.data.id);
+      if (event.data.blob) request.resolve(event.data.blob);
+      else request.reject(new Error(event.data.error));
+    };
+    worker.onerror = (event) => {
+      // A crashed worker fails everything in flight; the next call starts a new one.
+      pending.forEach(request => request.reject(new Error(event.message || 'Preprocessing worker failed')));
+      pending.clear();
+      worker?.terminate();
+      worker = null;
+    };
+  }
+  return worker;
+};
+
+/** Returns the processed image as a JPEG named after the original. */
+export const preprocessImage = async (file: File, options: PreprocessOptions = DEFAULT_PREPROCESS): Promise<File> => {
+  const id = nextId++;
+  const blob = await new Promise<Blob>((resolve, reject) => {
+    pending.set(id, { resolve, reject });
+    getWorker().postMessage({ id, file, options } satisfies PreprocessRequest);
+  });
+  const name = file.name.replace(/\.[^.]*$/, '') + '.jpg';
+  return new File([blob], name, { type: 'image/jpeg', lastModified: file.lastModified });
+};
@@ -0,0 +1,164 @@
+/**
+ * Image preprocessing worker — straightens, normalises and downsizes photos
+ * on an OffscreenCanvas so the main thread stays responsive.
+ */
+
+import type { PreprocessOptions, PreprocessRequest, PreprocessResponse } from './preprocess';
+
+// Percentiles mapped to black and white when stretching contrast
+const LEVELS_CLIP = 0.01;
+// Skip the stretch for nearly flat images, where it would only amplify noise
+const MIN_LEVELS_RANGE = 32;
+
+const MAX_SKEW_DEGREES = 10;
+// Width of the sample used to estimate skew; enough to resolve text lines
+const SKEW_SAMPLE_WIDTH = 600;
+const MIN_SKEW_DEGREES = 0.2;
+
+const JPEG_QUALITY = 0.85;
+
+const luminance = (data: Uint8ClampedArray, i: number) =>
+  0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+
+/** Grey levels at the low and high clip percentiles. */
+const levels = (data: Uint8ClampedArray): [number, number] => {
+  const histogram = new Uint32Array(256);
+  for (let i = 0; i < data.length; i += 4) histogram[Math.round(luminance(data, i))]++;
+
+  const pixels = data.length / 4;
+  let low = 0;
+  let high = 255;
+  for (let seen = 0; low < 255 && (seen += histogram[low]) < pixels * LEVELS_CLIP; low++);
+  for (let seen = 0; high > 0 && (seen += histogram[high]) < pixels * LEVELS_CLIP; high--);
+  return [low, high];
+};
+
+/** Stretch contrast to the full range, optionally dropping colour. */
+const normalize = (image: ImageData, grayscale: boolean) => {
+  const { data } = image;
+  const [low, high] = levels(data);
+  const stretch = high - low >= MIN_LEVELS_RANGE;
+  const scale = stretch ? 255 / (high - low) : 1;
+  const offset = stretch ? low : 0;
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (grayscale) {
+      const value = (luminance(data, i) - offset) * scale;
+      data[i] = data[i + 1] = data[i + 2] = value;
+    } else if (stretch) {
+      data[i] = (data[i] - offset) * scale;
+      data[i + 1] = (data[i + 1] - offset) * scale;
+      data[i + 2] = (data[i + 2] - offset) * scale;
+    }
+  }
+};
+
+/**
+ * Estimate the text skew in degrees with a projection profile: text lines
+ * produce the sharpest row histogram when projected at their own angle.
+ */
+const estimateSkew = (canvas: OffscreenCanvas): number => {
+  const ratio = Math.min(1, SKEW_SAMPLE_WIDTH / canvas.width);
+  const width = Math.max(1, Math.round(canvas.width * ratio));
+  const height = Math.max(1, Math.round(canvas.height * ratio));
+  const sample = new OffscreenCanvas(width, height);
+  const ctx = sample.getContext('2d')!;
+  ctx.drawImage(canvas, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+
+  // Dark pixels after normalisation are (mostly) ink
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (luminance(data, (y * width + x) * 4) < 128) {
+        xs.push(x);
+        ys.push(y);
+      }
+    }
+  }
+  if (xs.length < 100) return 0;
+
+  const bins = new Float64Array(height * 2 + width);
+  const score = (degrees: number) => {
+    const tan = Math.tan((degrees * Math.PI) / 180);
+    bins.fill(0);
+    for (let i = 0; i < xs.length; i++) {
+      bins[Math.round(ys[i] - xs[i] * tan) + width]++;
+    }
+    let sum = 0;
+    for (let i = 0; i < bins.length; i++) sum += bins[i] * bins[i];
+    return sum;
+  };
+
+  const search = (from: number, to: number, step: number) => {
+    let best = 0;
+    let bestScore = -1;
+    for (let degrees = from; degrees <= to + 1e-9; degrees += step) {
+      const s = score(degrees);
+      if (s > bestScore) {
+        bestScore = s;
+        best = degrees;
+      }
+    }
+    return best;
+  };
+
+  const coarse = search(-MAX_SKEW_DEGREES, MAX_SKEW_DEGREES, 0.5);
+  return search(coarse - 0.5, coarse + 0.5, 0.1);
+};
+
+/** Rotate onto a white canvas large enough to hold the whole image. */
+const rotate = (canvas: OffscreenCanvas, degrees: number): OffscreenCanvas => {
+  const radians = (degrees * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(radians));
+  const sin = Math.abs(Math.sin(radians));
+  const width = Math.round(canvas.width * cos + canvas.height * sin);
+  const height = Math.round(canvas.width * sin + canvas.height * cos);
+
+  const rotated = new OffscreenCanvas(width, height);
+  const ctx = rotated.getContext('2d')!;
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, width, height);
+  ctx.translate(width / 2, height / 2);
+  ctx.rotate(radians);
+  ctx.drawImage(canvas, -canvas.width / 2, -canvas.height / 2);
+  return rotated;
+};
+
+const preprocess = async (file: File, options: PreprocessOptions): Promise<Blob> => {
+  // Decoding with `from-image` applies the EXIF orientation
+  const bitmap = await createImageBitmap(file, { imageOrientation: 'from-image' });
+  const longest = Math.max(bitmap.width, bitmap.height);
+  const scale = options.maxDimension > 0 ? Math.min(1, options.maxDimension / longest) : 1;
+
+  let canvas = new OffscreenCanvas(Math.round(bitmap.width * scale), Math.round(bitmap.height * scale));
+  const ctx = canvas.getContext('2d')!;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+  bitmap.close();
+
+  if (options.normalize) {
+    const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    normalize(image, options.grayscale);
+    ctx.putImageData(image, 0, 0);
+  }
+
+  if (options.deskew) {
+    const skew = estimateSkew(canvas);
+    if (Math.abs(skew) >= MIN_SKEW_DEGREES) canvas = rotate(canvas, -skew);
+  }
+
+  return canvas.convertToBlob({ type: 'image/jpeg', quality: JPEG_QUALITY });
+};
+
+self.onmessage = async (event: MessageEvent<PreprocessRequest>) => {
+  const { id, file, options } = event.data;
+  let response: PreprocessResponse;
+  try {
+    response = { id, blob: await preprocess(file, options) };
+  } catch (error) {
+    response = { id, error: error instanceof Error ? error.message : String(error) };
+  }
+  self.postMessage(response);
+};
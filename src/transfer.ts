@@ -0,0 +1,354 @@
+/**
+ * File transfer over a PeerJS data connection: photos from the phone to
+ * the PC, and finished documents back. Files go in small chunks that the
+ * receiver acknowledges one by one; the sender keeps the unacknowledged
+ * bytes and the channel's own buffer bounded instead of pushing whole files
+ * at once. Each file is identified and verified by its SHA-256, and a file
+ * cut off by a dropped connection resumes from the last byte the receiver
+ * holds once the phone reconnects.
+ */
+
+import type { DataConnection } from 'peerjs';
+import { sha256 } from './sha256';
+
+// Below PeerJS's own 16300-byte message split, so a chunk is one message
+export const CHUNK_SIZE = 15 * 1024;
+// Bytes sent but not yet acknowledged by the receiver
+const MAX_UNACKED = 1024 * 1024;
+// Pause when the data channel buffers more than this; resume below the low mark
+const BUFFER_HIGH = 512 * 1024;
+const BUFFER_LOW = 128 * 1024;
+// No reply from the receiver for this long counts as a dead connection
+const STALL_MS = 20_000;
+// Attempts per file when the receiver reports a checksum mismatch
+const MAX_ATTEMPTS = 3;
+
+// Sender → receiver
+export type SenderMessage =
+  | {
+      type: 'file-start';
+      fileId: string;
+      name: string;
+      mimeType: string;
+      size: number;
+      index: number;
+      total: number;
+      // Byte totals for the whole batch, for progress on the receiving side
+      batchSize: number;
+      batchOffset: number;
+    }
+  | { type: 'chunk'; fileId: string; offset: number; data: ArrayBuffer }
+  | { type: 'file-end'; fileId: string }
+  | { type: 'done' };
+
+// Receiver → sender. `resume` answers file-start with where to continue from;
+// `file-ok` answers it too when the receiver already has the whole file.
+export type ReceiverMessage =
+  | { type: 'resume'; fileId: string; offset: number }
+  | { type: 'ack'; fileId: string; offset: number }
+  | { type: 'file-ok'; fileId: string }
+  | { type: 'file-error'; fileId: string };
+
+export type TransferErrorReason = 'disconnected' | 'stalled' | 'verification';
+
+export class TransferError extends Error {
+  constructor(message: string, public readonly reason: TransferErrorReason) {
+    super(message);
+    this.name = 'TransferError';
+  }
+}
+
+export interface TransferProgress {
+  fileIndex: number;
+  fileCount: number;
+  bytes: number;
+  totalBytes: number;
+}
+
+export const formatMegabytes = (bytes: number) => (bytes / 1024 / 1024).toFixed(1);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const isOffset = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isSafeInteger(value) && value >= 0;
+
+export const isSenderMessage = (value: unknown): value is SenderMessage => {
+  if (!isRecord(value)) return false;
+  switch (value.type) {
+    case 'file-start':
+      return typeof value.fileId === 'string' && typeof value.name === 'string'
+        && typeof value.mimeType === 'string' && isOffset(value.size)
+        && isOffset(value.index) && isOffset(value.total)
+        && isOffset(value.batchSize) && isOffset(value.batchOffset);
+    case 'chunk':
+      return typeof value.fileId === 'string' && isOffset(value.offset) && value.data instanceof ArrayBuffer;
+    case 'file-end':
+      return typeof value.fileId === 'string';
+    case 'done':
+      return true;
+    default:
+      return false;
+  }
+};
+
+export const isReceiverMessage = (value: unknown): value is ReceiverMessage => {
+  if (!isRecord(value) || typeof value.fileId !== 'string') return false;
+  if (value.type === 'resume' || value.type === 'ack') return isOffset(value.offset);
+  return value.type === 'file-ok' || value.type === 'file-error';
+};
+
+/**
+ * Replies from the receiver plus a way to wait for the next thing worth
+ * rechecking for: a reply, or the channel's buffer draining. Waits reject
+ * once the connection closes or goes quiet for too long.
+ */
+const listen = (conn: DataConnection) => {
+  const replies: ReceiverMessage[] = [];
+  const acked = new Map<string, number>();
+  let waiters: { resolve: () => void; reject: (error: TransferError) => void }[] = [];
+  let failure: TransferError | null = null;
+
+  const wake = () => {
+    const current = waiters;
+    waiters = [];
+    current.forEach(waiter => waiter.resolve());
+  };
+
+  const fail = (error: TransferError) => {
+    failure ??= error;
+    const current = waiters;
+    waiters = [];
+    current.forEach(waiter => waiter.reject(failure!));
+  };
+
+  const onData = (data: unknown) => {
+    if (!isReceiverMessage(data)) return;
+    if (data.type === 'ack') {
+      acked.set(data.fileId, Math.max(acked.get(data.fileId) ?? 0, data.offset));
+    } else {
+      replies.push(data);
+    }
+    wake();
+  };
+  const onClose = () => fail(new TransferError('Connection closed', 'disconnected'));
+
+  const channel = conn.dataChannel;
+  channel.bufferedAmountLowThreshold = BUFFER_LOW;
+  conn.on('data', onData);
+  conn.on('close', onClose);
+  conn.on('error', onClose);
+  channel.addEventListener('bufferedamountlow', wake);
+
+  const next = () =>
+    new Promise<void>((resolve, reject) => {
+      if (failure) return reject(failure);
+      if (!conn.open) return reject(new TransferError('Connection closed', 'disconnected'));
+      const timer = setTimeout(() => fail(new TransferError('No reply from the other device', 'stalled')), STALL_MS);
+      waiters.push({
+        resolve: () => { clearTimeout(timer); resolve(); },
+        reject: (error) => { clearTimeout(timer); reject(error); },
+      });
+    });
+
+  /** Wait for the first reply about `fileId` of one of `types`. */
+  const take = async <T extends ReceiverMessage['type']>(fileId: string, types: T[]) => {
+    for (;;) {
+      const index = replies.findIndex(reply => reply.fileId === fileId && types.includes(reply.type as T));
+      if (index >= 0) return replies.splice(index, 1)[0] as Extract<ReceiverMessage, { type: T }>;
+      await next();
+    }
+  };
+
+  const dispose = () => {
+    conn.off('data', onData);
+    conn.off('close', onClose);
+    conn.off('error', onClose);
+    channel.removeEventListener('bufferedamountlow', wake);
+  };
+
+  return {
+    next,
+    take,
+    acked: (fileId: string) => acked.get(fileId) ?? 0,
+    // A resend after a checksum failure starts counting again
+    clearAcks: (fileId: string) => acked.delete(fileId),
+    dispose,
+  };
+};
+
+/**
+ * Send `files` in order. Files the receiver already holds (from an earlier,
+ * interrupted run of the same batch) are skipped, and a partial file picks
+ * up where it left off. Rejects with a TransferError; for 'disconnected'
+ * and 'stalled' the caller should reconnect and call this again.
+ */
+export const sendBatch = async (
+  conn: DataConnection,
+  files: File[],
+  onProgress?: (progress: TransferProgress) => void,
+): Promise<void> => {
+  const inbox = listen(conn);
+  const totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+  let batchOffset = 0;
+
+  try {
+    for (let index = 0; index < files.length; index++) {
+      const file = files[index];
+      const report = (bytes: number) =>
+        onProgress?.({ fileIndex: index, fileCount: files.length, bytes: batchOffset + bytes, totalBytes });
+      const data = await file.arrayBuffer();
+      const fileId = await sha256(data);
+
+      for (let attempt = 1; ; attempt++) {
+        conn.send({
+          type: 'file-start',
+          fileId,
+          name: file.name,
+          mimeType: file.type,
+          size: data.byteLength,
+          index,
+          total: files.length,
+          batchSize: totalBytes,
+          batchOffset,
+        } satisfies SenderMessage);
+
+        const start = await inbox.take(fileId, ['resume', 'file-ok']);
+        if (start.type === 'file-ok') break;
+        inbox.clearAcks(fileId);
+
+        let offset = start.offset;
+        report(offset);
+        while (offset < data.byteLength) {
+          while (offset - Math.max(inbox.acked(fileId), start.offset) > MAX_UNACKED
+            || conn.dataChannel.bufferedAmount > BUFFER_HIGH) {
+            await inbox.next();
+          }
+          const end = Math.min(offset + CHUNK_SIZE, data.byteLength);
+          await conn.send({ type: 'chunk', fileId, offset, data: data.slice(offset, end) } satisfies SenderMessage);
+          offset = end;
+          report(Math.max(inbox.acked(fileId), start.offset));
+        }
+        conn.send({ type: 'file-end', fileId } satisfies SenderMessage);
+
+        const verdict = await inbox.take(fileId, ['file-ok', 'file-error']);
+        if (verdict.type === 'file-ok') break;
+        if (attempt >= MAX_ATTEMPTS) {
+          throw new TransferError(`${file.name} arrived corrupted ${attempt} times`, 'verification');
+        }
+      }
+
+      batchOffset += file.size;
+      report(0);
+    }
+    conn.send({ type: 'done' } satisfies SenderMessage);
+  } catch (error) {
+    // Drop a connection that went quiet so the caller's reconnect kicks in
+    if (error instanceof TransferError && error.reason === 'stalled') conn.close();
+    throw error;
+  } finally {
+    inbox.dispose();
+  }
+};
+
+interface IncomingFile {
+  name: string;
+  mimeType: string;
+  size: number;
+  chunks: ArrayBuffer[];
+  received: number;
+}
+
+export interface ReceiverEvents {
+  /** A file arrived whole and its checksum matched. */
+  onFile: (file: File, fileId: string) => void;
+  onProgress: (progress: TransferProgress) => void;
+  onDone: () => void;
+}
+
+/**
+ * Receiving side of the protocol. One receiver outlives individual
+ * connections so partial files survive a reconnect; pass it each
+ * connection's messages with `handle`. `inBatch` tells whether the sender
+ * stopped part-way through a batch.
+ */
+export const createReceiver = ({ onFile, onProgress, onDone }: ReceiverEvents) => {
+  const partials = new Map<string, IncomingFile>();
+  const completed = new Set<string>();
+  let current: { fileId: string; index: number; total: number; batchSize: number; batchOffset: number } | null = null;
+
+  const reply = (conn: DataConnection, message: ReceiverMessage) => conn.send(message);
+
+  const report = (received: number) => {
+    if (!current) return;
+    onProgress({
+      fileIndex: current.index,
+      fileCount: current.total,
+      bytes: current.batchOffset + received,
+      totalBytes: current.batchSize,
+    });
+  };
+
+  const finish = async (conn: DataConnection, fileId: string) => {
+    const partial = partials.get(fileId);
+    if (!partial) return;
+    partials.delete(fileId);
+    const blob = new Blob(partial.chunks, { type: partial.mimeType });
+    const valid = partial.received === partial.size && await sha256(await blob.arrayBuffer()) === fileId;
+    if (!valid) {
+      console.warn(`Checksum mismatch for ${partial.name}; asking the sender to resend`);
+      reply(conn, { type: 'file-error', fileId });
+      return;
+    }
+    completed.add(fileId);
+    reply(conn, { type: 'file-ok', fileId });
+    onFile(new File([blob], partial.name, { type: partial.mimeType }), fileId);
+  };
+
+  const handle = (conn: DataConnection, message: SenderMessage) => {
+    switch (message.type) {
+      case 'file-start': {
+        const { fileId, name, mimeType, size, index, total, batchSize, batchOffset } = message;
+        current = { fileId, index, total, batchSize, batchOffset };
+        if (completed.has(fileId)) {
+          reply(conn, { type: 'file-ok', fileId });
+          report(size);
+          return;
+        }
+        let partial = partials.get(fileId);
+        if (!partial || partial.size !== size) {
+          partial = { name, mimeType, size, chunks: [], received: 0 };
+          partials.set(fileId, partial);
+        }
+        reply(conn, { type: 'resume', fileId, offset: partial.received });
+        report(partial.received);
+        return;
+      }
+      case 'chunk': {
+        const partial = partials.get(message.fileId);
+        // Only the next contiguous chunk is kept; anything else predates a resume
+        if (!partial || message.offset !== partial.received
+          || partial.received + message.data.byteLength > partial.size) return;
+        partial.chunks.push(message.data);
+        partial.received += message.data.byteLength;
+        reply(conn, { type: 'ack', fileId: message.fileId, offset: partial.received });
+        report(partial.received);
+        return;
+      }
+      case 'file-end':
+        void finish(conn, message.fileId);
+        return;
+      case 'done':
+        current = null;
+        onDone();
+        return;
+    }
+  };
+
+  return {
+    handle,
+    get inBatch() {
+      return current !== null;
+    },
+  };
+};
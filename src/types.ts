@@ -0,0 +1,64 @@
+/**
+ * Shared types for the extraction → document pipeline.
+ */
+
+export type Alignment = 'left' | 'center' | 'right';
+
+/** Script direction: right-to-left for Arabic, Persian, Hebrew and the like. */
+export type Direction = 'ltr' | 'rtl';
+
+export type BlockType = 'heading' | 'bullet' | 'numbered' | 'body' | 'caption' | 'table';
+
+/** [ymin, xmin, ymax, xmax] on a 0–1000 grid relative to the source image. */
+export type BoundingBox = [number, number, number, number];
+
+/** A stretch of text with uniform emphasis inside a block. */
+export interface InlineRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+}
+
+export interface TableCell {
+  text: string;
+  runs?: InlineRun[];
+  alignment?: Alignment;
+  /** Rows/columns this cell spans; covered positions are omitted from later rows. */
+  rowSpan?: number;
+  colSpan?: number;
+}
+
+export interface TableData {
+  rows: TableCell[][];
+  /** Leading rows that form the table header. */
+  headerRows?: number;
+}
+
+export interface TextBlock {
+  /**
+   * Plain text of the whole block; always present, even when `runs` is.
+   * For tables this is the tab-separated rendering of the grid.
+   */
+  text: string;
+  alignment: Alignment;
+  /** As reported by the OCR provider; see blockDirection for the fallback. */
+  direction?: Direction;
+  type?: BlockType;
+  /** Heading level (1–6) or list nesting depth (0-based). */
+  level?: number;
+  runs?: InlineRun[];
+  /** Approximate font size in points as it appears on the page. */
+  fontSize?: number;
+  box?: BoundingBox;
+  /** Present when `type` is 'table'. */
+  table?: TableData;
+}
+
+/** One entry per source image, in upload order. */
+export type ExtractedPages = TextBlock[][];
+
+/** Like ExtractedPages, with null for images that were never extracted (e.g. cancelled). */
+export type PartialPages = (TextBlock[] | null)[];
+
+export type ImageStatus = 'queued' | 'extracting' | 'done' | 'failed' | 'cancelled';
@@ -0,0 +1,299 @@
+/**
+ * Phone upload session. App owns it so the pairing outlives the QR modal:
+ * any number of phones can pair, one per one-time QR code. Each keeps
+ * sending batches while the user works on the desktop, and every file is
+ * handed over the moment it arrives. Finished documents go back to a phone
+ * over the same connection.
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type Peer from 'peerjs';
+import type { DataConnection } from 'peerjs';
+import { HELLO_TIMEOUT_MS, PAIRING_TTL_MS, confirmationCode, createPairingSecret, isHelloMessage, pairingProof } from './pairing';
+import type { ByeMessage, HelloMessage, WelcomeMessage } from './pairing';
+import type { Lang } from './i18n';
+import { defaultPhoneHost, savePhoneHost } from './lanAddresses';
+import { BROKER_RETRY_MS, createPeer, isFatalPeerError } from './peer';
+import { createReceiver, isReceiverMessage, isSenderMessage, sendBatch } from './transfer';
+import type { TransferProgress } from './transfer';
+
+// State of the QR code; paired phones have their own status
+export type PhoneSessionStatus =
+  | 'idle'
+  | 'initializing'
+  | 'waiting'
+  | 'expired'
+  | 'error';
+
+export type PhoneDeviceStatus = 'connected' | 'receiving' | 'reconnecting' | 'offline';
+
+export interface PhoneDevice {
+  // The phone's peer id
+  id: string;
+  label: string;
+  // Confirmation code shown on both screens once paired
+  code: string;
+  status: PhoneDeviceStatus;
+  progress: TransferProgress | null;
+  receivedCount: number;
+}
+
+export interface PhoneSession {
+  status: PhoneSessionStatus;
+  qrUrl: string;
+  /** Address in the QR code; see src/lanAddresses.ts. */
+  host: string;
+  /** Point the QR code at another address of this PC. */
+  setHost: (host: string) => void;
+  /** Phones paired in this session, in the order they joined. */
+  devices: PhoneDevice[];
+  /** Create the peer and show a QR code; does nothing if a session is running. */
+  start: () => void;
+  /** New QR code, e.g. after the old one expired. Paired phones stay paired. */
+  renew: () => void;
+  /** End the session and tell every phone to stop. */
+  stop: () => void;
+  /** Send files to one paired phone; rejects if it isn't connected or the transfer fails. */
+  sendFiles: (deviceId: string, files: File[]) => Promise<void>;
+}
+
+interface Pairing {
+  label: string;
+  // The secret it paired with, so a newer QR code doesn't lock it out
+  secret: string;
+  // Kept across the phone's connections so a cut-off file resumes
+  receiver: ReturnType<typeof createReceiver>;
+  conn: DataConnection | null;
+}
+
+// Give the goodbye message a moment to leave before the peer goes away
+const BYE_GRACE_MS = 500;
+const MAX_LABEL_LENGTH = 32;
+
+// Dot colours telling phones apart in the modal and on thumbnails
+const DEVICE_COLORS = ['bg-sky-500', 'bg-violet-500', 'bg-amber-500', 'bg-rose-500', 'bg-teal-500', 'bg-lime-600'];
+
+/** Same colour for the same label, so it survives the session ending. */
+export const deviceColor = (label: string) =>
+  DEVICE_COLORS[[...label].reduce((sum, char) => sum + char.charCodeAt(0), 0) % DEVICE_COLORS.length];
+
+// Same scheme and port as this page, at an address the phone can reach, in
+// the PC's language. The secret goes in the fragment, which browsers never
+// send to the server.
+const buildUploadUrl = (host: string, peerId: string, secret: string, lang: Lang) => {
+  const port = window.location.port ? `:${window.location.port}` : '';
+  const baseUrl = `${window.location.protocol}//${host}${port}`;
+  return `${baseUrl}?mode=upload&peer=${peerId}&lang=${lang}#key=${secret}`;
+};
+
+export const usePhoneSession = (onFile: (file: File, device: string) => void, lang: Lang): PhoneSession => {
+  const [status, setStatus] = useState<PhoneSessionStatus>('idle');
+  const [peerId, setPeerId] = useState('');
+  const [secret, setSecret] = useState(createPairingSecret);
+  const [devices, setDevices] = useState<PhoneDevice[]>([]);
+  const [host, setHostState] = useState(defaultPhoneHost);
+  const peerRef = useRef<Peer | null>(null);
+  const pairingsRef = useRef(new Map<string, Pairing>());
+  const secretRef = useRef(secret);
+  secretRef.current = secret;
+  const onFileRef = useRef(onFile);
+  onFileRef.current = onFile;
+  const expiredRef = useRef(false);
+
+  const updateDevice = (id: string, update: (device: PhoneDevice) => Partial<PhoneDevice>) =>
+    setDevices(prev => prev.map(device => (device.id === id ? { ...device, ...update(device) } : device)));
+
+  const reset = () => {
+    peerRef.current = null;
+    pairingsRef.current = new Map();
+    expiredRef.current = false;
+    setPeerId('');
+    setDevices([]);
+  };
+
+  const start = useCallback(() => {
+    if (peerRef.current) return;
+    const peer = createPeer();
+    const pairings = new Map<string, Pairing>();
+    peerRef.current = peer;
+    pairingsRef.current = pairings;
+    setSecret(createPairingSecret());
+    setStatus('initializing');
+
+    const createDeviceReceiver = (id: string, label: string) => createReceiver({
+      onFile: (file) => {
+        updateDevice(id, device => ({ receivedCount: device.receivedCount + 1 }));
+        onFileRef.current(file, label);
+      },
+      onProgress: (progress) => updateDevice(id, () => ({ progress, status: 'receiving' })),
+      // Ready for the next batch over the same pairing
+      onDone: () => updateDevice(id, () => ({ progress: null, status: 'connected' })),
+    });
+
+    // Two phones of the same model get "iPhone" and "iPhone (2)"
+    const uniqueLabel = (wanted: string | undefined) => {
+      const base = wanted?.trim().slice(0, MAX_LABEL_LENGTH) || 'Phone';
+      const taken = new Set([...pairings.values()].map(pairing => pairing.label));
+      let label = base;
+      for (let n = 2; taken.has(label); n++) label = `${base} (${n})`;
+      return label;
+    };
+
+    const reject = (conn: DataConnection, reason: string) => {
+      console.warn(`Rejected phone connection from ${conn.peer}: ${reason}`);
+      conn.close();
+    };
+
+    const verifyHello = async (conn: DataConnection, hello: HelloMessage) => {
+      const key = pairings.get(conn.peer)?.secret ?? secretRef.current;
+      const [expected, shownCode] = await Promise.all([pairingProof(key, conn), confirmationCode(key, conn)]);
+      if (hello.proof !== expected) {
+        reject(conn, 'wrong pairing proof');
+        return false;
+      }
+      if (!conn.open || peer.destroyed) return false;
+      let pairing = pairings.get(conn.peer);
+      if (!pairing) {
+        // The QR code may have expired while the proof was being checked
+        if (expiredRef.current) {
+          reject(conn, 'QR code expired');
+          return false;
+        }
+        const label = uniqueLabel(hello.label);
+        pairing = { label, secret: key, receiver: createDeviceReceiver(conn.peer, label), conn: null };
+        pairings.set(conn.peer, pairing);
+        // Each code pairs one phone; the next one gets a fresh QR code
+        const next = createPairingSecret();
+        secretRef.current = next;
+        setSecret(next);
+        setDevices(prev => [...prev, { id: conn.peer, label, code: shownCode, status: 'connected', progress: null, receivedCount: 0 }]);
+      }
+      // A phone coming back replaces its old connection
+      pairing.conn = conn;
+      conn.send({ type: 'welcome', label: pairing.label } satisfies WelcomeMessage);
+      const inBatch = pairing.receiver.inBatch;
+      updateDevice(conn.peer, () => ({ code: shownCode, status: inBatch ? 'receiving' : 'connected' }));
+      return true;
+    };
+
+    peer.on('open', (id) => {
+      setPeerId(id);
+      // A reopened broker connection keeps the QR code
+      setStatus(prev => (prev === 'initializing' ? 'waiting' : prev));
+    });
+
+    peer.on('connection', (conn: DataConnection) => {
+      // Paired phones may always come back; new ones need a valid QR code
+      if (!pairings.has(conn.peer) && expiredRef.current) {
+        reject(conn, 'QR code expired');
+        return;
+      }
+
+      let state: 'hello' | 'checking' | 'paired' = 'hello';
+      const helloTimer = setTimeout(() => {
+        if (state !== 'paired') reject(conn, 'no pairing handshake');
+      }, HELLO_TIMEOUT_MS);
+
+      conn.on('data', (data: unknown) => {
+        if (state === 'paired') {
+          if (isSenderMessage(data)) pairings.get(conn.peer)?.receiver.handle(conn, data);
+          // Replies to our own sends are read by sendBatch
+          else if (!isReceiverMessage(data)) console.warn('Ignored a malformed message from the phone');
+          return;
+        }
+        // Nothing but a single hello is accepted before pairing
+        if (state === 'checking' || !isHelloMessage(data)) {
+          reject(conn, 'unexpected message before pairing');
+          return;
+        }
+        state = 'checking';
+        void verifyHello(conn, data).then(ok => {
+          if (ok) state = 'paired';
+        });
+      });
+
+      conn.on('close', () => {
+        clearTimeout(helloTimer);
+        const pairing = pairings.get(conn.peer);
+        if (state !== 'paired' || peer.destroyed || pairing?.conn !== conn) return;
+        pairing.conn = null;
+        // The phone reconnects by itself; a partial file resumes then
+        updateDevice(conn.peer, () => ({ status: pairing.receiver.inBatch ? 'reconnecting' : 'offline' }));
+      });
+    });
+
+    // The session is meant to last, so ride out broker hiccups. Deferred
+    // because destroy() disconnects first, and that peer must stay down.
+    peer.on('disconnected', () => {
+      setTimeout(() => {
+        if (peer.disconnected && !peer.destroyed) peer.reconnect();
+      }, BROKER_RETRY_MS);
+    });
+
+    peer.on('error', (error) => {
+      // Paired phones keep their data connections through a broker drop
+      if (!isFatalPeerError(error)) {
+        console.warn('Phone session error; carrying on:', error);
+        return;
+      }
+      console.error('Phone session failed:', error);
+      peer.destroy();
+      if (peerRef.current === peer) reset();
+      setStatus('error');
+    });
+  }, []);
+
+  const stop = useCallback(() => {
+    const peer = peerRef.current;
+    if (!peer) return;
+    const open = [...pairingsRef.current.values()]
+      .map(pairing => pairing.conn)
+      .filter((conn): conn is DataConnection => !!conn?.open);
+    open.forEach(conn => conn.send({ type: 'bye' } satisfies ByeMessage));
+    if (open.length > 0) setTimeout(() => peer.destroy(), BYE_GRACE_MS);
+    else peer.destroy();
+    reset();
+    setStatus('idle');
+  }, []);
+
+  const sendFiles = useCallback(async (deviceId: string, files: File[]) => {
+    const conn = pairingsRef.current.get(deviceId)?.conn;
+    if (!conn?.open) throw new Error('Phone not connected');
+    await sendBatch(conn, files);
+  }, []);
+
+  const setHost = useCallback((next: string) => {
+    savePhoneHost(next);
+    setHostState(next);
+  }, []);
+
+  const renew = useCallback(() => {
+    expiredRef.current = false;
+    setSecret(createPairingSecret());
+    setStatus('waiting');
+  }, []);
+
+  // The QR code stops working after a while; phones already paired stay paired
+  useEffect(() => {
+    if (status !== 'waiting') return;
+    const timer = setTimeout(() => {
+      expiredRef.current = true;
+      setStatus('expired');
+    }, PAIRING_TTL_MS);
+    return () => clearTimeout(timer);
+  }, [status, secret]);
+
+  useEffect(() => () => peerRef.current?.destroy(), []);
+
+  return {
+    status,
+    qrUrl: peerId ? buildUploadUrl(host, peerId, secret, lang) : '',
+    host,
+    setHost,
+    devices,
+    start,
+    renew,
+    stop,
+    sendFiles,
+  };
+};
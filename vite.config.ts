@@ -1,30 +1,71 @@
 import tailwindcss from '@tailwindcss/vite';
 import react from '@vitejs/plugin-react';
 import path from 'path';
-import os from 'os';
-import { defineConfig, loadEnv } from 'vite';
+import fs from 'fs';
+import { defineConfig, loadEnv, type Plugin } from 'vite';
+import { lanAddresses } from './server/network';
 
-// Detect the machine's LAN IP so QR codes work from a phone
-function getLocalIP(): string {
-  const interfaces = os.networkInterfaces();
-  for (const name of Object.keys(interfaces)) {
-    for (const iface of interfaces[name] || []) {
-      if (iface.family === 'IPv4' && !iface.internal) {
-        return iface.address;
-      }
-    }
+// Files the offline Tesseract provider loads, keyed by their URL under /tesseract/.
+// Only the LSTM cores are listed since the worker runs with OEM.LSTM_ONLY.
+function tesseractAssetMap(): Record<string, string> {
+  const modules = path.resolve(__dirname, 'node_modules');
+  const assets: Record<string, string> = {
+    'worker.min.js': path.join(modules, 'tesseract.js/dist/worker.min.js'),
+  };
+  for (const core of ['tesseract-core-lstm', 'tesseract-core-simd-lstm', 'tesseract-core-relaxedsimd-lstm']) {
+    assets[`core/${core}.wasm.js`] = path.join(modules, 'tesseract.js-core', `${core}.wasm.js`);
   }
-  return 'localhost';
+  for (const lang of ['eng', 'tur', 'spa']) {
+    assets[`lang/${lang}.traineddata.gz`] = path.join(modules, `@tesseract.js-data/${lang}/4.0.0_best_int/${lang}.traineddata.gz`);
+  }
+  return assets;
+}
+
+// The pdf.js worker, used to rasterise PDF pages; see src/inputs.ts.
+function pdfjsAssetMap(): Record<string, string> {
+  return {
+    'pdf.worker.min.mjs': path.resolve(__dirname, 'node_modules/pdfjs-dist/build/pdf.worker.min.mjs'),
+  };
+}
+
+// Serves vendored worker and data files under /<base>/ from our own origin
+// in dev and copies them into the build, so OCR and PDF import work offline.
+function localAssets(base: string, assets: Record<string, string>): Plugin {
+  return {
+    name: `snapconvert-${base}-assets`,
+    configureServer(server) {
+      server.middlewares.use(`/${base}`, (req, res, next) => {
+        const file = assets[(req.url || '').replace(/^\//, '').split('?')[0]];
+        if (!file) return next();
+        res.setHeader('Content-Type', /\.m?js$/.test(file) ? 'text/javascript' : 'application/octet-stream');
+        fs.createReadStream(file).pipe(res);
+      });
+    },
+    generateBundle() {
+      for (const [name, file] of Object.entries(assets)) {
+        this.emitFile({ type: 'asset', fileName: `${base}/${name}`, source: fs.readFileSync(file) });
+      }
+    },
+  };
 }
 
 export default defineConfig(({ mode }) => {
-  const env = loadEnv(mode, '.', '');
-  const localIP = getLocalIP();
+  // Includes .env, which `vite build` doesn't put in process.env
+  const env = loadEnv(mode, process.cwd(), '');
   return {
-    plugins: [react(), tailwindcss()],
+    plugins: [
+      react(),
+      tailwindcss(),
+      localAssets('tesseract', tesseractAssetMap()),
+      localAssets('pdfjs', pdfjsAssetMap()),
+    ],
     define: {
-      'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-      'process.env.LOCAL_IP': JSON.stringify(localIP),
+      // GEMINI_API_KEY is deliberately not defined here: it stays on the
+      // server (see server/gemini.ts) and must never be bundled.
+      // Every address the phone might reach this machine at, for the QR code
+      'process.env.LAN_ADDRESSES': JSON.stringify(JSON.stringify(lanAddresses())),
+      // 'cloud' pairs phones through the public PeerJS broker (see src/peer.ts)
+      'process.env.PEER_BROKER': JSON.stringify(env.PEER_BROKER || ''),
     },
     resolve: {
       alias: {